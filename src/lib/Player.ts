@@ -1,6 +1,11 @@
-import type { CreateResponse, ID, PlayerOptions } from '../types';
+import type { ColorMap, TextMap, CreateResponse, ID, Marker, OffscreenCanvasLike, PlaybackDirection, PlaybackMode, PlayerOptions, PosterFrame, Segment, SnapshotOptions } from '../types';
+import { PlayerError } from './errors';
+import { isReducedMotion } from './reduced-motion';
+import { deferred, getInstanceId, type Deferred, type Movie } from './utils';
 
 let globalId = 0;
+const minPlaybackRate = 0.25;
+const maxPlaybackRate = 4;
 
 export interface PlayerEventMap {
     mount: [totalFrames: number, frameRate: number];
@@ -8,17 +13,47 @@ export interface PlayerEventMap {
     pause: [];
     end: [];
     rendered: [];
+    seek: [frame: number];
+    ratechange: [rate: number];
+    colorchange: [colors: ColorMap | undefined];
+    fillchange: [fill: string | undefined];
+    error: [error: PlayerError];
+    visible: [];
+    hidden: [];
     resize: [width: number, height: number, dpr: number];
     dispose: [];
 }
 
+/** Названия всех событий плеера */
+export const playerEvents: Array<keyof PlayerEventMap> = [
+    'mount', 'play', 'pause', 'end', 'rendered', 'seek', 'ratechange',
+    'colorchange', 'fillchange', 'error', 'visible', 'hidden', 'resize', 'dispose'
+];
+
+/**
+ * Событие плеера в потоке `player.events()`
+ */
+export type PlayerEvent<E extends keyof PlayerEventMap = keyof PlayerEventMap> = {
+    [K in E]: { type: K, args: PlayerEventMap[K] }
+}[E];
+
+/**
+ * Отрисовка снимка кадра плеера. Реализуется контроллером, который
+ * управляет воркерами плееров
+ */
+export type SnapshotRenderer = (player: Player, frame: number | undefined, options: SnapshotOptions) => Promise<ImageBitmap | Blob>;
+
 type PlayerEventNames = keyof PlayerEventMap;
 type Listener = (...args: any[]) => void;
+type TransferableCanvas = HTMLCanvasElement & {
+    transferControlToOffscreen(): OffscreenCanvasLike;
+};
 
 export default class Player {
-    public readonly id: ID;
     public canvas: HTMLCanvasElement;
-    public ctx: CanvasRenderingContext2D;
+
+    /** Контекст отрисовки. Недоступен в режиме `offscreen` */
+    public ctx!: CanvasRenderingContext2D;
     public loop: boolean;
     public dpr: number;
     public paused = false;
@@ -26,20 +61,77 @@ export default class Player {
     public totalFrames = -1;
     public frameRate = 60;
     public disposed = false;
-    public fill: string | undefined;
+
+    /** Подстановка строк в текстовые слои анимации */
+    public readonly text: TextMap | undefined;
+
+    /** ID анимации в архиве dotLottie */
+    public readonly animationId: string | undefined;
+
+    /**
+     * Плеер виден на странице. Если в конфиге включён `autoPause`, скрытые
+     * плееры не отрисовываются, но и не ставятся на паузу
+     */
+    public visible = true;
+    public markers: Marker[] = [];
+
+    /** Текущий воспроизводимый сегмент анимации */
+    public segment: Segment | undefined;
+
+    /** Ошибка, из-за которой не удалось загрузить анимацию */
+    public error: PlayerError | undefined;
+
+    /** Анимация рисуется прямо в воркере через OffscreenCanvas */
+    public readonly offscreen: boolean;
+
+    /**
+     * Холст для передачи в воркер в режиме `offscreen`. После передачи
+     * в воркер сбрасывается
+     */
+    public offscreenCanvas: OffscreenCanvasLike | undefined;
+
+    /** ID анимации, указанный в опциях плеера */
+    public readonly baseId: ID;
 
     private listeners: { [K in PlayerEventNames]?: Listener[] } = {};
+    private instanceId: ID;
+    private colorMap: ColorMap | undefined;
+    private rate = 1;
+    private dir: PlaybackDirection = 1;
+    private playbackMode: PlaybackMode = 'normal';
+    private readyState = deferred<void>();
+    private finishedState: Deferred<void> | undefined;
+    private offscreenWidth = 0;
+    private offscreenHeight = 0;
+    private poster: PosterFrame = 'first';
+    private fillColor: string | undefined;
+
+    /** Воспроизведение было запущено явным вызовом `play()` */
+    private playRequested = false;
+
+    /**
+     * Настройки воспроизведения, явно указанные в опциях. Они приоритетнее
+     * настроек из файла анимации
+     */
+    private explicitLoop: boolean;
+    private explicitRate: boolean;
 
-    constructor(options: PlayerOptions) {
+    constructor(options: PlayerOptions, private snapshotRenderer?: SnapshotRenderer) {
         const { canvas } = options;
         const width = options.width || canvas.width;
         const height = options.height || canvas.height;
 
         this.canvas = canvas;
-        this.ctx = canvas.getContext('2d', { alpha: true, willReadFrequently: true })!;
-        this.id = options.id || `__lottie${globalId++}`;
+        this.offscreen = !!options.offscreen && 'transferControlToOffscreen' in canvas;
+        if (!this.offscreen) {
+            this.ctx = canvas.getContext('2d', { alpha: true, willReadFrequently: true })!;
+        }
+
+        this.baseId = options.id || `__lottie${globalId++}`;
         this.dpr = options.dpr || window.devicePixelRatio || 1;
         this.loop = options.loop || false;
+        this.explicitLoop = options.loop !== undefined;
+        this.explicitRate = options.playbackRate !== undefined;
         if (options.fps) {
             this.frameRate = options.fps;
         }
@@ -48,15 +140,130 @@ export default class Player {
             this.fill = options.fill;
         }
 
+        if (options.colors) {
+            this.colorMap = options.colors;
+        }
+
+        if (options.text) {
+            this.text = options.text;
+        }
+
+        if (options.animationId) {
+            this.animationId = options.animationId;
+        }
+
+        this.instanceId = getInstanceId(this.baseId, this);
+
+        if (options.playbackRate) {
+            this.rate = clampRate(options.playbackRate);
+        }
+
+        if (options.direction) {
+            this.dir = options.direction;
+        }
+
+        if (options.mode) {
+            this.playbackMode = options.mode;
+        }
+
+        if (options.segment) {
+            this.segment = options.segment;
+        }
+
+        if (options.posterFrame !== undefined) {
+            this.poster = options.posterFrame;
+        }
+
         this.resize(width, height);
+
+        if (this.offscreen) {
+            // После передачи управления холстом его размер можно поменять
+            // только в воркере
+            this.offscreenCanvas = (canvas as TransferableCanvas).transferControlToOffscreen();
+        }
+
+        // Чтобы не было ошибки о необработанном промисе, если никто не
+        // подписался на `ready`
+        this.readyState.promise.catch(() => {});
+    }
+
+    /**
+     * Промис, который выполнится, когда плеер будет смонтирован, либо
+     * отклонится с ошибкой, если анимацию не удалось загрузить или плеер
+     * удалили до монтирования
+     */
+    get ready(): Promise<void> {
+        return this.readyState.promise;
+    }
+
+    /**
+     * Промис, который выполнится, когда анимация в следующий раз доиграет
+     * до конца (событие `end`), либо отклонится, если плеер удалят или
+     * анимацию не удастся загрузить. Зацикленная анимация не заканчивается,
+     * пока не выключить `loop`
+     */
+    get finished(): Promise<void> {
+        if (!this.finishedState) {
+            const state = this.finishedState = deferred<void>();
+            // Чтобы не было ошибки о необработанном промисе, если
+            // результат `play()` никто не ждёт
+            state.promise.catch(() => {});
+
+            if (this.disposed) {
+                this.finishedState = undefined;
+                state.reject(new PlayerError('disposed', 'Player is disposed'));
+                return state.promise;
+            }
+
+            const cleanUp = () => {
+                this.finishedState = undefined;
+                this.off('end', onEnd);
+                this.off('error', onError);
+                this.off('dispose', onDispose);
+            };
+            const onEnd = () => {
+                cleanUp();
+                state.resolve();
+            };
+            const onError = (err: PlayerError) => {
+                cleanUp();
+                state.reject(err);
+            };
+            const onDispose = () => {
+                cleanUp();
+                state.reject(new PlayerError('disposed', 'Player is disposed'));
+            };
+
+            this.on('end', onEnd)
+                .on('error', onError)
+                .on('dispose', onDispose);
+        }
+
+        return this.finishedState.promise;
+    }
+
+    /**
+     * ID экземпляра анимации. Плееры с одинаковым ID используют общий
+     * экземпляр, поэтому для перекрашенной анимации или анимации
+     * с подстановкой текста к исходному ID добавляется ключ с изменениями
+     */
+    get id(): ID {
+        return this.instanceId;
+    }
+
+    /**
+     * Перекраска анимации. Поменять цвета можно только через `setColors()`
+     */
+    get colors(): ColorMap | undefined {
+        return this.colorMap;
     }
 
     get width() {
-        return this.canvas?.width || 0;
+        return this.offscreen ? this.offscreenWidth : this.canvas?.width || 0;
     }
 
     get height() {
-        return this.canvas?.height || 0;
+        return this.offscreen ? this.offscreenHeight : this.canvas?.height || 0;
     }
 
     get mounted() {
@@ -72,24 +279,136 @@ export default class Player {
     }
 
     /**
-     * Запускает воспроизведение анимации
+     * Первый кадр текущего сегмента анимации
      */
-    play() {
-        let shouldPlay = false;
+    get segmentStart() {
+        return this.getSegmentBounds()[0];
+    }
 
-        if (this.paused) {
-            this.paused = false;
-            shouldPlay = true;
+    /**
+     * Последний кадр текущего сегмента анимации
+     */
+    get segmentEnd() {
+        return this.getSegmentBounds()[1];
+    }
+
+    /**
+     * Множитель скорости воспроизведения. Можно менять во время
+     * воспроизведения: анимация продолжится с текущего кадра
+     */
+    get playbackRate() {
+        return this.rate;
+    }
+
+    set playbackRate(value: number) {
+        value = clampRate(value);
+        if (value !== this.rate) {
+            this.rate = value;
+            this.emit('ratechange', value);
         }
+    }
 
-        if (this.loop && this.frame === this.lastFrame) {
-            this.frame = 0;
-            shouldPlay = true;
+    /**
+     * Направление воспроизведения: `1` — вперёд, `-1` — назад
+     */
+    get direction() {
+        return this.dir;
+    }
+
+    set direction(value: PlaybackDirection) {
+        if (value !== this.dir) {
+            this.dir = value;
+            this.restoreFrame();
         }
+    }
 
-        if (shouldPlay) {
+    /**
+     * Режим воспроизведения
+     */
+    get mode() {
+        return this.playbackMode;
+    }
+
+    set mode(value: PlaybackMode) {
+        if (value !== this.playbackMode) {
+            this.playbackMode = value;
+            this.restoreFrame();
+        }
+    }
+
+    /**
+     * Кадр, который показывается вместо воспроизведения в режиме уменьшения
+     * движения
+     */
+    get posterFrame(): number {
+        const { poster } = this;
+        if (typeof poster === 'number') {
+            return Math.max(0, Math.min(Math.floor(poster), this.lastFrame));
+        }
+
+        if (poster === 'last') {
+            return this.segmentEnd;
+        }
+
+        const marker = poster !== 'first' && this.markers.find(m => m.name === poster);
+        return marker ? Math.min(marker.start, this.lastFrame) : this.segmentStart;
+    }
+
+    /**
+     * Можно ли воспроизводить анимацию. Если пользователь попросил уменьшить
+     * движение, анимация воспроизводится только после явного вызова `play()`
+     */
+    get motionAllowed(): boolean {
+        return this.playRequested || !isReducedMotion();
+    }
+
+    /**
+     * Длительность анимации в миллисекундах. Если плеер ещё не смонтирован,
+     * вернёт `0`
+     */
+    get duration() {
+        return this.mounted ? this.totalFrames * this.frameTime : 0;
+    }
+
+    /**
+     * Текущая позиция воспроизведения в миллисекундах
+     */
+    get currentTime() {
+        return Math.max(this.frame, 0) * this.frameTime;
+    }
+
+    /**
+     * Запускает воспроизведение анимации. Вернёт промис, который выполнится,
+     * когда анимация доиграет до конца (см. `finished`)
+     */
+    play(): Promise<void> {
+        const { finished } = this;
+        // Статичный плеер в режиме уменьшения движения тоже считается
+        // поставленным на паузу
+        const resume = this.paused || !this.motionAllowed;
+        this.playRequested = true;
+        if (resume) {
+            this.paused = false;
             this.emit('play');
         }
+
+        return finished;
+    }
+
+    /**
+     * Воспроизводит указанный сегмент анимации: название маркера из
+     * Lottie-файла или диапазон кадров `[start, end]`
+     */
+    playSegment(segment: Segment, options: { loop?: boolean } = {}) {
+        this.segment = segment;
+        if (options.loop !== undefined) {
+            this.loop = options.loop;
+        }
+
+        if (this.mounted) {
+            this.seek(this.direction === -1 ? this.segmentEnd : this.segmentStart);
+        }
+        this.play();
     }
 
     /**
@@ -113,6 +432,97 @@ export default class Player {
         }
     }
 
+    /**
+     * Цвет заливки анимации
+     */
+    get fill(): string | undefined {
+        return this.fillColor;
+    }
+
+    set fill(value: string | undefined) {
+        if (value !== this.fillColor) {
+            this.fillColor = value;
+            this.emit('fillchange', value);
+        }
+    }
+
+    /**
+     * Перекрашивает анимацию. Экземпляр анимации будет пересоздан с новыми
+     * цветами только для текущего плеера, остальные плееры группы не
+     * изменятся. В режиме `offscreen` цвета можно указать только при
+     * создании плеера
+     */
+    setColors(colors: ColorMap | undefined) {
+        if (this.offscreen) {
+            return;
+        }
+
+        const prevId = this.id;
+        this.colorMap = colors;
+        this.instanceId = getInstanceId(this.baseId, this);
+        if (this.id !== prevId) {
+            this.emit('colorchange', colors);
+        }
+    }
+
+    /**
+     * Отрисовывает указанный кадр анимации (по умолчанию — текущий) в отдельную
+     * картинку: `ImageBitmap` или PNG/WebP-файл. Холст плеера при этом
+     * не меняется. Если плеер ещё не смонтирован, снимок будет сделан
+     * после монтирования
+     */
+    snapshot(frame?: number, options: SnapshotOptions = {}): Promise<ImageBitmap | Blob> {
+        return this.snapshotRenderer
+            ? this.snapshotRenderer(this, frame, options)
+            : Promise.reject(new Error('Snapshots are not supported for this player'));
+    }
+
+    /**
+     * Обновляет видимость плеера на странице
+     */
+    setVisible(visible: boolean) {
+        if (visible !== this.visible) {
+            this.visible = visible;
+            this.emit(visible ? 'visible' : 'hidden');
+        }
+    }
+
+    /**
+     * Переходит к указанному кадру анимации. Если плеер на паузе, кадр всё равно
+     * будет отрисован. Для плееров с одинаковым `id` переход выполняется
+     * для всей группы, так как у них общий таймлайн
+     */
+    seek(frame: number) {
+        frame = Math.max(0, Math.floor(frame));
+        if (this.mounted) {
+            frame = Math.min(frame, this.lastFrame);
+        }
+        this.emit('seek', frame);
+    }
+
+    /**
+     * Переходит к указанному времени анимации, в миллисекундах
+     */
+    seekTime(time: number) {
+        this.seek(time / this.frameTime);
+    }
+
+    /**
+     * Переходит к указанному кадру и ставит воспроизведение на паузу
+     */
+    goToAndStop(frame: number) {
+        this.pause();
+        this.seek(frame);
+    }
+
+    /**
+     * Переходит к указанному кадру и запускает воспроизведение
+     */
+    goToAndPlay(frame: number) {
+        this.seek(frame);
+        this.play();
+    }
+
     /**
      * Меняет размер холста с анимацией. Так же убедится, что размер отрисовываемого
      * кадра будет не меньше
@@ -121,8 +531,13 @@ export default class Player {
         const { canvas } = this;
         if (canvas) {
             this.dpr = dpr;
-            canvas.width = width * dpr;
-            canvas.height = height * dpr;
+            if (this.offscreen) {
+                this.offscreenWidth = width * dpr;
+                this.offscreenHeight = height * dpr;
+            } else {
+                canvas.width = width * dpr;
+                canvas.height = height * dpr;
+            }
             canvas.style.width = `${width}px`;
             canvas.style.height = `${height}px`;
 
@@ -139,10 +554,36 @@ export default class Player {
         if (!this.mounted) {
             this.totalFrames = data.totalFrames;
             this.frameRate = data.frameRate || 60;
+            this.markers = data.markers || [];
             this.emit('mount', this.totalFrames, data.frameRate);
+            this.readyState.resolve();
         }
     }
 
+    /**
+     * Применяет настройки воспроизведения из файла анимации, если они не были
+     * явно указаны в опциях плеера
+     */
+    applyMovieSettings(movie: Omit<Movie, 'data'>) {
+        if (movie.loop !== undefined && !this.explicitLoop) {
+            this.loop = movie.loop;
+        }
+
+        if (movie.playbackRate && !this.explicitRate) {
+            this.playbackRate = movie.playbackRate;
+        }
+    }
+
+    /**
+     * Вызывается в момент, когда анимацию для плеера не удалось загрузить
+     * или воркер плеера упал
+     */
+    fail(error: PlayerError) {
+        this.error = error;
+        this.emit('error', error);
+        this.readyState.reject(error);
+    }
+
     /**
      * Удаляет текущий экземпляр плеера
      */
@@ -151,6 +592,112 @@ export default class Player {
         this.frame = this.totalFrames = -1;
         this.emit('dispose');
         this.listeners = {};
+        // Плеер удалили до монтирования: ожидающие `ready` не должны зависнуть
+        this.readyState.reject(new PlayerError('disposed', 'Player is disposed'));
+    }
+
+    /**
+     * Вернёт границы текущего сегмента анимации. Если сегмент не указан или
+     * не найден маркер с таким названием, вернёт границы всей анимации
+     */
+    private getSegmentBounds(): [number, number] {
+        const { segment, lastFrame } = this;
+        let start = 0;
+        let end = lastFrame;
+
+        if (Array.isArray(segment)) {
+            [start, end] = segment;
+        } else if (segment) {
+            const marker = this.markers.find(m => m.name === segment);
+            if (marker) {
+                start = marker.start;
+                end = marker.end;
+            }
+        }
+
+        start = Math.max(0, Math.min(start, lastFrame));
+        end = Math.max(start, Math.min(end, lastFrame));
+        return [start, end];
+    }
+
+    /**
+     * Привязывает таймлайн к текущему кадру после смены направления или режима
+     * воспроизведения, чтобы анимация не прыгала на другой кадр
+     */
+    private restoreFrame() {
+        if (this.mounted && this.frame !== -1) {
+            this.seek(this.frame);
+        }
+    }
+
+    /**
+     * Поток событий плеера для `for await`. Если указаны названия событий,
+     * в поток попадут только они. Поток завершается после удаления плеера
+     * либо при выходе из цикла
+     */
+    events<E extends PlayerEventNames = PlayerEventNames>(...names: E[]): AsyncIterableIterator<PlayerEvent<E>> {
+        const types = names.length ? names : playerEvents as E[];
+        const queue: Array<PlayerEvent<E>> = [];
+        const listeners = new Map<E, Listener>();
+        let waiting: ((result: IteratorResult<PlayerEvent<E>>) => void) | undefined;
+        let done = this.disposed;
+
+        const push = (event: PlayerEvent<E>) => {
+            if (waiting) {
+                const resolve = waiting;
+                waiting = undefined;
+                resolve({ value: event, done: false });
+            } else {
+                queue.push(event);
+            }
+        };
+
+        const finish = () => {
+            if (!done) {
+                done = true;
+                listeners.forEach((listener, type) => this.off(type, listener));
+                this.off('dispose', finish);
+                listeners.clear();
+            }
+
+            if (waiting) {
+                const resolve = waiting;
+                waiting = undefined;
+                resolve({ value: undefined, done: true });
+            }
+        };
+
+        if (!done) {
+            types.forEach(type => {
+                const listener = (...args: any[]) => push({ type, args } as PlayerEvent<E>);
+                listeners.set(type, listener);
+                this.on(type, listener);
+            });
+
+            // Подписываемся после остальных событий, чтобы событие `dispose`
+            // успело попасть в поток
+            this.on('dispose', finish);
+        }
+
+        return {
+            next: () => {
+                if (queue.length) {
+                    return Promise.resolve({ value: queue.shift()!, done: false });
+                }
+
+                return done
+                    ? Promise.resolve({ value: undefined, done: true })
+                    : new Promise(resolve => waiting = resolve);
+            },
+            return: () => {
+                queue.length = 0;
+                finish();
+                return Promise.resolve({ value: undefined, done: true });
+            },
+            [Symbol.asyncIterator]() {
+                return this;
+            }
+        };
     }
 
     /**
@@ -198,3 +745,7 @@ export default class Player {
         return this;
     }
 }
+
+function clampRate(rate: number): number {
+    return Math.min(maxPlaybackRate, Math.max(minPlaybackRate, rate));
+}
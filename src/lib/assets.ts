@@ -0,0 +1,133 @@
+import type { ImageAsset, PlayerOptions } from '../types';
+import { PlayerError } from './errors';
+
+export interface AssetOptions {
+    /** Базовый URL для картинок с относительными путями */
+    baseUrl?: string;
+
+    resolveAsset?: PlayerOptions['resolveAsset'];
+}
+
+const imageTypes: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    svg: 'image/svg+xml'
+};
+
+/**
+ * Загружает внешние картинки анимации и встраивает их в неё как data URI:
+ * RLottie в воркере не умеет загружать файлы по URL
+ */
+export function inlineAssets(data: string, options: AssetOptions = {}): Promise<string> {
+    return Promise.resolve().then(() => {
+        const movie = JSON.parse(data);
+        const assets = getImageAssets(movie);
+        if (!assets.length) {
+            return data;
+        }
+
+        return Promise.all(assets.map(asset => {
+            if (asset.p.startsWith('data:')) {
+                // Картинка уже встроена, но не отмечена как встроенная
+                asset.e = 1;
+                return undefined;
+            }
+
+            return resolveAsset(asset, options).then(uri => {
+                asset.u = '';
+                asset.p = uri;
+                asset.e = 1;
+            });
+        })).then(() => JSON.stringify(movie));
+    });
+}
+
+/**
+ * Кодирует указанные данные в data URI. Тип данных определяется
+ * по расширению файла `name`
+ */
+export function toDataUri(data: Uint8Array, name: string): string {
+    // Кодируем кусками, чтобы не упереться в ограничение на количество
+    // аргументов функции
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < data.length; i += chunkSize) {
+        binary += String.fromCharCode.apply(null, data.subarray(i, i + chunkSize) as unknown as number[]);
+    }
+
+    return `data:${getImageType(name)};base64,${btoa(binary)}`;
+}
+
+/**
+ * Вернёт картинки анимации, которые не отмечены как встроенные
+ */
+function getImageAssets(movie: any): ImageAsset[] {
+    const assets: any[] = Array.isArray(movie.assets) ? movie.assets : [];
+    return assets.filter(asset => asset && !asset.layers && asset.e !== 1
+        && typeof asset.p === 'string' && asset.p);
+}
+
+/**
+ * Загружает указанную картинку и вернёт её в виде data URI
+ */
+function resolveAsset(asset: ImageAsset, options: AssetOptions): Promise<string> {
+    const url = getAssetUrl(asset, options.baseUrl);
+    const load = options.resolveAsset
+        ? Promise.resolve(options.resolveAsset(asset))
+        : Promise.resolve(url);
+
+    return load
+        .then(result => {
+            if (typeof result !== 'string') {
+                return blobToDataUri(result, url);
+            }
+
+            if (result.startsWith('data:')) {
+                return result;
+            }
+
+            return fetch(result, { mode: 'cors' }).then(res => {
+                if (res.ok) {
+                    return res.blob();
+                }
+
+                throw new Error(`Invalid response: ${res.status}: ${res.statusText}`);
+            }).then(blob => blobToDataUri(blob, result));
+        })
+        .catch((err: Error) => {
+            throw err instanceof PlayerError
+                ? err
+                : new PlayerError('network', `Unable to load asset "${asset.id}": ${err.message}`);
+        });
+}
+
+/**
+ * Вернёт URL картинки: путь `u` + имя файла `p` относительно базового URL
+ * (если не указан, то относительно страницы)
+ */
+function getAssetUrl(asset: ImageAsset, baseUrl?: string): string {
+    const path = /^[a-z]+:/i.test(asset.p) ? asset.p : (asset.u || '') + asset.p;
+    const base = baseUrl || (typeof location !== 'undefined' ? location.href : undefined);
+    try {
+        return base ? new URL(path, base).href : path;
+    } catch {
+        // Относительно базового URL нельзя построить адрес (например, это data URI)
+        return path;
+    }
+}
+
+function blobToDataUri(blob: Blob, url: string): Promise<string> {
+    return blob.arrayBuffer().then(buf => {
+        const uri = toDataUri(new Uint8Array(buf), url);
+        // Если сервер указал тип картинки, используем его
+        return blob.type ? uri.replace(/^data:[^;]+/, `data:${blob.type}`) : uri;
+    });
+}
+
+function getImageType(name: string): string {
+    const ext = name.replace(/[?#].*$/, '').split('.').pop()!.toLowerCase();
+    return imageTypes[ext] || 'application/octet-stream';
+}
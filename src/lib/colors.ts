@@ -0,0 +1,206 @@
+import type { ColorMap } from '../types';
+import { forEachLayer, matchKeypath } from './keypath';
+
+type RGB = [r: number, g: number, b: number];
+
+interface ColorRules {
+    /** Замена цвета по пути к свойству */
+    paths: Array<[keypath: string[], color: RGB]>;
+
+    /** Замена исходного цвета на новый */
+    sources: Array<[source: RGB, color: RGB]>;
+}
+
+/** Погрешность при сравнении цветов: в Lottie они хранятся как дробные числа */
+const colorEpsilon = 0.5 / 255;
+
+/**
+ * Перекрашивает анимацию: заменяет цвета заливок, обводок, градиентов и
+ * однотонных слоёв в JSON Lottie-файла. В качестве ключа `colors` указывается
+ * либо путь к свойству из названий слоёв и фигур (например, `Heart.Fill 1.Color`),
+ * либо исходный цвет в HEX-формате, который нужно заменить везде
+ */
+export function applyColors(data: string, colors: ColorMap): string {
+    const rules = parseRules(colors);
+    if (!rules.paths.length && !rules.sources.length) {
+        return data;
+    }
+
+    const movie = JSON.parse(data);
+    forEachLayer(movie, (layer, path) => {
+        if (layer.ty === 1 && typeof layer.sc === 'string') {
+            // Однотонный слой
+            const color = getColor(rules, [...path, 'Color'], parseColor(layer.sc));
+            if (color) {
+                layer.sc = toHex(color);
+            }
+        } else if (layer.ty === 4) {
+            walkShapes(layer.shapes, path, rules);
+        }
+    });
+
+    return JSON.stringify(movie);
+}
+
+function parseRules(colors: ColorMap): ColorRules {
+    const rules: ColorRules = { paths: [], sources: [] };
+    Object.keys(colors).forEach(key => {
+        const color = parseColor(colors[key]);
+        if (color) {
+            const source = parseColor(key);
+            if (source) {
+                rules.sources.push([source, color]);
+            } else {
+                rules.paths.push([key.split('.'), color]);
+            }
+        }
+    });
+
+    return rules;
+}
+
+function walkShapes(shapes: any[], path: string[], rules: ColorRules) {
+    if (!Array.isArray(shapes)) {
+        return;
+    }
+
+    shapes.forEach(shape => {
+        if (!shape) {
+            return;
+        }
+
+        const shapePath = [...path, String(shape.nm ?? '')];
+        switch (shape.ty) {
+            case 'gr':
+                walkShapes(shape.it, shapePath, rules);
+                break;
+            case 'fl':
+            case 'st':
+                updateColorProp(shape.c, [...shapePath, 'Color'], rules);
+                break;
+            case 'gf':
+            case 'gs':
+                if (shape.g) {
+                    updateGradientProp(shape.g.k, shape.g.p, [...shapePath, 'Colors'], rules);
+                }
+                break;
+        }
+    });
+}
+
+/**
+ * Перекрашивает свойство с цветом: `[r, g, b, a]` либо ключевые кадры
+ * с такими значениями
+ */
+function updateColorProp(prop: any, path: string[], rules: ColorRules) {
+    if (!prop) {
+        return;
+    }
+
+    const update = (value: unknown) => {
+        if (isNumberArray(value)) {
+            const color = getColor(rules, path, value.slice(0, 3) as RGB);
+            if (color) {
+                value.splice(0, 3, ...color);
+            }
+        }
+    };
+
+    if (prop.a) {
+        if (Array.isArray(prop.k)) {
+            prop.k.forEach((keyframe: any) => {
+                update(keyframe?.s);
+                update(keyframe?.e);
+            });
+        }
+    } else {
+        update(prop.k);
+    }
+}
+
+/**
+ * Перекрашивает свойство с градиентом. Значение градиента — плоский массив,
+ * где первые `count` элементов по 4 числа — это позиция и цвет `[offset, r, g, b]`,
+ * а за ними идут точки прозрачности
+ */
+function updateGradientProp(prop: any, count: number, path: string[], rules: ColorRules) {
+    if (!prop || !count) {
+        return;
+    }
+
+    const update = (value: unknown) => {
+        if (isNumberArray(value)) {
+            for (let i = 0; i < count && i * 4 + 3 < value.length; i++) {
+                const offset = i * 4 + 1;
+                const color = getColor(rules, path, value.slice(offset, offset + 3) as RGB);
+                if (color) {
+                    value.splice(offset, 3, ...color);
+                }
+            }
+        }
+    };
+
+    if (prop.a) {
+        if (Array.isArray(prop.k)) {
+            prop.k.forEach((keyframe: any) => {
+                update(keyframe?.s);
+                update(keyframe?.e);
+            });
+        }
+    } else {
+        update(prop.k);
+    }
+}
+
+/**
+ * Вернёт новый цвет для свойства по указанному пути с текущим цветом `source`.
+ * Замена по пути приоритетнее замены по исходному цвету
+ */
+function getColor(rules: ColorRules, path: string[], source: RGB | undefined): RGB | undefined {
+    for (const [keypath, color] of rules.paths) {
+        if (matchKeypath(keypath, path)) {
+            return color;
+        }
+    }
+
+    if (source) {
+        for (const [from, color] of rules.sources) {
+            if (isSameColor(from, source)) {
+                return color;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Парсит цвет в формате `#rgb` или `#rrggbb` в компоненты от 0 до 1
+ */
+function parseColor(color: string): RGB | undefined {
+    const m = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+    if (m) {
+        let hex = m[1];
+        if (hex.length === 3) {
+            hex = hex.replace(/./g, c => c + c);
+        }
+
+        return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16) / 255) as RGB;
+    }
+
+    return undefined;
+}
+
+function toHex(color: RGB): string {
+    return '#' + color.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('');
+}
+
+function isSameColor(a: RGB, b: RGB): boolean {
+    return Math.abs(a[0] - b[0]) <= colorEpsilon
+        && Math.abs(a[1] - b[1]) <= colorEpsilon
+        && Math.abs(a[2] - b[2]) <= colorEpsilon;
+}
+
+function isNumberArray(value: unknown): value is number[] {
+    return Array.isArray(value) && value.length >= 3 && typeof value[0] === 'number';
+}
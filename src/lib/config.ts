@@ -5,7 +5,14 @@ const config: Config = {
     maxWorkers: 4,
     playersPerWorker: 5,
     workerUrl: RLottieWorker,
-    cacheFrames: false
+    cacheFrames: false,
+    frameCacheLimit: 64 * 1024 * 1024,
+    precache: 'off',
+    movieCacheLimit: 16 * 1024 * 1024,
+    renderTimeout: 5000,
+    preloadTimeout: 30000,
+    autoPause: false,
+    reducedMotion: 'ignore'
 };
 
 /**
@@ -0,0 +1,190 @@
+import type { Movie } from './utils';
+import { PlayerError } from './errors';
+import { decompress } from './inflate';
+import { toDataUri } from './assets';
+
+interface ZipEntry {
+    /** Метод сжатия: `0` — без сжатия, `8` — Deflate */
+    method: number;
+
+    /** Смещение заголовка файла в архиве */
+    offset: number;
+    size: number;
+}
+
+interface DotLottieAnimation {
+    id: string;
+    loop?: boolean | number;
+    speed?: number;
+}
+
+interface DotLottieManifest {
+    animations?: DotLottieAnimation[];
+    activeAnimationId?: string;
+}
+
+/**
+ * Проверяет, что указанные данные — ZIP-архив
+ */
+export function isZip(data: Uint8Array): boolean {
+    return data.length > 4 && data[0] === 0x50 && data[1] === 0x4b
+        && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Достаёт анимацию из архива dotLottie (.lottie). Картинки из архива
+ * встраиваются в анимацию как data URI, а настройки воспроизведения
+ * берутся из манифеста
+ * @param animationId ID анимации из манифеста. Если не указан, берётся
+ * активная либо первая анимация
+ */
+export function unpackDotLottie(data: Uint8Array, animationId?: string): Promise<Movie> {
+    return Promise.resolve().then(() => {
+        const entries = readZipEntries(data);
+        const readText = (name: string) => readEntry(data, entries, name)
+            .then(bytes => new TextDecoder().decode(bytes));
+
+        if (!entries.has('manifest.json')) {
+            throw new PlayerError('parse', 'Invalid dotLottie file: missing manifest.json');
+        }
+
+        return readText('manifest.json').then(text => {
+            const manifest: DotLottieManifest = JSON.parse(text);
+            const animations = manifest.animations || [];
+            const id = animationId || manifest.activeAnimationId || animations[0]?.id;
+            const path = id ? findAnimation(entries, id) : undefined;
+            if (!path) {
+                throw new PlayerError('parse', `Invalid dotLottie file: animation "${id ?? ''}" not found`);
+            }
+
+            const settings = animations.find(anim => anim.id === id);
+            return readText(path)
+                .then(json => inlineImages(data, entries, JSON.parse(json)))
+                .then(movie => {
+                    const result: Movie = { data: JSON.stringify(movie) };
+                    if (settings?.loop !== undefined) {
+                        result.loop = !!settings.loop;
+                    }
+
+                    if (settings?.speed) {
+                        result.playbackRate = settings.speed;
+                    }
+
+                    return result;
+                });
+        });
+    }).catch(err => {
+        throw err instanceof PlayerError
+            ? err
+            : new PlayerError('parse', `Invalid dotLottie file: ${(err as Error).message}`);
+    });
+}
+
+/**
+ * Находит путь к файлу анимации в архиве. В первой версии формата анимации
+ * лежат в папке `animations`, во второй — в папке `a`
+ */
+function findAnimation(entries: Map<string, ZipEntry>, id: string): string | undefined {
+    const candidates = [`animations/${id}.json`, `a/${id}.json`];
+    return candidates.find(name => entries.has(name))
+        || Array.from(entries.keys()).find(name => name.endsWith(`/${id}.json`));
+}
+
+/**
+ * Заменяет ссылки на картинки из архива на data URI
+ */
+function inlineImages(data: Uint8Array, entries: Map<string, ZipEntry>, movie: any): Promise<any> {
+    const assets: any[] = Array.isArray(movie.assets) ? movie.assets : [];
+    return Promise.all(assets.map(asset => {
+        if (!asset || asset.e === 1 || typeof asset.p !== 'string' || asset.layers) {
+            return undefined;
+        }
+
+        const dir = String(asset.u || '').replace(/^\/+/, '');
+        const name = [dir + asset.p, `images/${asset.p}`, `i/${asset.p}`]
+            .find(name => entries.has(name));
+
+        if (name) {
+            return readEntry(data, entries, name).then(bytes => {
+                asset.u = '';
+                asset.p = toDataUri(bytes, name);
+                asset.e = 1;
+            });
+        }
+
+        return undefined;
+    })).then(() => movie);
+}
+
+/**
+ * Читает оглавление ZIP-архива
+ */
+function readZipEntries(data: Uint8Array): Map<string, ZipEntry> {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const entries = new Map<string, ZipEntry>();
+    const decoder = new TextDecoder();
+
+    // Ищем запись о конце центрального каталога: она в конце архива,
+    // но после неё может идти комментарий
+    let eocd = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+
+    if (eocd === -1) {
+        throw new Error('central directory not found');
+    }
+
+    const count = view.getUint16(eocd + 10, true);
+    let pos = view.getUint32(eocd + 16, true);
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(pos, true) !== 0x02014b50) {
+            throw new Error('invalid central directory');
+        }
+
+        const nameLen = view.getUint16(pos + 28, true);
+        const extraLen = view.getUint16(pos + 30, true);
+        const commentLen = view.getUint16(pos + 32, true);
+        const name = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLen));
+        entries.set(name, {
+            method: view.getUint16(pos + 10, true),
+            size: view.getUint32(pos + 20, true),
+            offset: view.getUint32(pos + 42, true)
+        });
+        pos += 46 + nameLen + extraLen + commentLen;
+    }
+
+    return entries;
+}
+
+/**
+ * Читает и распаковывает файл из архива
+ */
+function readEntry(data: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<Uint8Array> {
+    const entry = entries.get(name);
+    if (!entry) {
+        return Promise.reject(new Error(`file "${name}" not found`));
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const { offset } = entry;
+    if (view.getUint32(offset, true) !== 0x04034b50) {
+        return Promise.reject(new Error(`invalid header of "${name}"`));
+    }
+
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    const content = data.subarray(start, start + entry.size);
+
+    if (entry.method === 0) {
+        return Promise.resolve(content);
+    }
+
+    if (entry.method === 8) {
+        return decompress(content, 'deflate-raw');
+    }
+
+    return Promise.reject(new Error(`unsupported compression method of "${name}"`));
+}
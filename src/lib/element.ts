@@ -0,0 +1,176 @@
+import type { PlayerOptions, Segment } from '../types';
+import type Player from './Player';
+import { playerEvents } from './Player';
+
+type PlayerFactory = (options: PlayerOptions) => Player;
+
+/** Размер холста по умолчанию, как у `<canvas>` */
+const defaultWidth = 300;
+const defaultHeight = 150;
+
+/** Атрибуты, при изменении которых плеер нужно создать заново */
+const recreateAttributes = ['src', 'group-id', 'fps'];
+
+/**
+ * Интерфейс элемента `<lottie-player>`
+ */
+export interface LottiePlayerElement extends HTMLElement {
+    /** Плеер анимации. Создаётся, когда элемент добавлен в документ и указан `src` */
+    readonly player: Player | undefined;
+}
+
+/**
+ * Регистрирует элемент `<lottie-player>` с указанным названием. Класс элемента
+ * создаётся только при вызове, чтобы модуль можно было импортировать
+ * в окружении без DOM
+ */
+export function defineElement(name: string, createPlayer: PlayerFactory) {
+    if (!customElements.get(name)) {
+        customElements.define(name, createElementClass(createPlayer));
+    }
+}
+
+function createElementClass(createPlayer: PlayerFactory) {
+    return class extends HTMLElement implements LottiePlayerElement {
+        static get observedAttributes() {
+            return ['src', 'loop', 'autoplay', 'fill', 'fps', 'group-id', 'width', 'height', 'segment'];
+        }
+
+        public player: Player | undefined;
+        private canvas: HTMLCanvasElement;
+
+        constructor() {
+            super();
+            const shadow = this.attachShadow({ mode: 'open' });
+            const style = document.createElement('style');
+            style.textContent = ':host { display: inline-block; } canvas { display: block; }';
+            this.canvas = document.createElement('canvas');
+            shadow.append(style, this.canvas);
+        }
+
+        connectedCallback() {
+            this.createPlayer();
+        }
+
+        disconnectedCallback() {
+            this.disposePlayer();
+        }
+
+        attributeChangedCallback(name: string, prev: string | null, value: string | null) {
+            if (prev === value) {
+                return;
+            }
+
+            if (recreateAttributes.includes(name)) {
+                // Плеера может ещё не быть: например, фреймворк указал `src`
+                // уже после добавления элемента в документ
+                this.disposePlayer();
+                if (this.isConnected) {
+                    this.createPlayer();
+                }
+                return;
+            }
+
+            const { player } = this;
+            if (!player) {
+                return;
+            }
+
+            switch (name) {
+                case 'loop':
+                    player.loop = value !== null;
+                    break;
+                case 'autoplay':
+                    if (value !== null) {
+                        player.play();
+                    } else {
+                        player.pause();
+                    }
+                    break;
+                case 'fill':
+                    player.fill = value || undefined;
+                    break;
+                case 'width':
+                case 'height':
+                    player.resize(...this.getSize());
+                    break;
+                case 'segment':
+                    player.segment = parseSegment(value);
+                    if (player.totalFrames !== -1) {
+                        player.seek(player.direction === -1 ? player.segmentEnd : player.segmentStart);
+                    }
+                    break;
+            }
+        }
+
+        private createPlayer() {
+            const src = this.getAttribute('src');
+            if (this.player || !src || !this.isConnected) {
+                return;
+            }
+
+            const [width, height] = this.getSize();
+            const fps = Number(this.getAttribute('fps'));
+            const player = createPlayer({
+                canvas: this.canvas,
+                movie: src,
+                id: this.getAttribute('group-id') || undefined,
+                loop: this.hasAttribute('loop'),
+                fill: this.getAttribute('fill') || undefined,
+                fps: fps > 0 ? fps : undefined,
+                segment: parseSegment(this.getAttribute('segment')),
+                width,
+                height
+            });
+
+            if (!this.hasAttribute('autoplay')) {
+                // Без автовоспроизведения показываем первый кадр сегмента
+                player.pause();
+                player.ready.then(() => {
+                    if (player.paused && player.frame === -1 && !player.disposed) {
+                        player.seek(player.direction === -1 ? player.segmentEnd : player.segmentStart);
+                    }
+                }, () => {});
+            }
+
+            playerEvents.forEach(event => {
+                player.on(event, (...args: unknown[]) => {
+                    this.dispatchEvent(new CustomEvent(event, { detail: args }));
+                });
+            });
+
+            this.player = player;
+        }
+
+        private disposePlayer() {
+            const { player } = this;
+            if (player) {
+                this.player = undefined;
+                player.dispose();
+            }
+        }
+
+        /**
+         * Размер плеера: из атрибутов, а если они не указаны — размер
+         * самого элемента или размер холста по умолчанию
+         */
+        private getSize(): [width: number, height: number] {
+            const width = Number(this.getAttribute('width')) || this.clientWidth || defaultWidth;
+            const height = Number(this.getAttribute('height')) || this.clientHeight || defaultHeight;
+            return [width, height];
+        }
+    };
+}
+
+/**
+ * Разбирает значение атрибута `segment`: диапазон кадров `30-90` (или `30,90`)
+ * либо название маркера
+ */
+function parseSegment(value: string | null): Segment | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const m = /^\s*(\d+)\s*[-,]\s*(\d+)\s*$/.exec(value);
+    return m ? [Number(m[1]), Number(m[2])] : value;
+}
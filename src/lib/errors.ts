@@ -0,0 +1,69 @@
+import type { PlayerErrorType, WorkerErrorCode, WorkerErrorPayload } from '../types';
+
+/**
+ * Ошибка загрузки или воспроизведения анимации
+ */
+export class PlayerError extends Error {
+    /** Тип ошибки */
+    public readonly type: PlayerErrorType;
+
+    constructor(type: PlayerErrorType, message: string) {
+        super(message);
+        this.name = 'PlayerError';
+        this.type = type;
+    }
+}
+
+/**
+ * Ошибка, полученная в ответ на запрос к воркеру
+ */
+export class WorkerError extends Error {
+    /** Код ошибки */
+    public readonly code: WorkerErrorCode;
+
+    constructor(code: WorkerErrorCode, message: string) {
+        super(message);
+        this.name = 'WorkerError';
+        this.code = code;
+    }
+
+    /**
+     * Данные об ошибке для передачи между воркером и основным потоком
+     */
+    toJSON(): WorkerErrorPayload {
+        return { code: this.code, message: this.message };
+    }
+}
+
+/**
+ * Приводит указанную ошибку к данным, которые можно передать из воркера
+ * @param code Код ошибки, если она не является `WorkerError`
+ */
+export function toWorkerErrorPayload(err: unknown, code: WorkerErrorCode = 'EUNKNOWN'): WorkerErrorPayload {
+    if (err instanceof WorkerError) {
+        return err.toJSON();
+    }
+
+    return {
+        code,
+        message: err instanceof Error ? err.message : String(err)
+    };
+}
+
+/**
+ * Приводит указанную ошибку к `PlayerError`. Если ошибка уже нужного типа,
+ * вернёт её как есть
+ */
+export function toPlayerError(err: unknown, type: PlayerErrorType): PlayerError {
+    if (err instanceof PlayerError) {
+        return err;
+    }
+
+    if (err instanceof WorkerError && err.code === 'EINVALID_MOVIE') {
+        // Воркер не смог разобрать анимацию
+        type = 'parse';
+    }
+
+    const message = err instanceof Error ? err.message : String(err);
+    return new PlayerError(type, message);
+}
@@ -0,0 +1,202 @@
+import type { FrameImage, ID } from '../types';
+import { isImageBitmap } from './utils';
+
+interface FrameCacheEntry {
+    id: ID;
+    frame: number;
+    image: FrameImage;
+
+    /** Размер кадра в памяти, в байтах */
+    bytes: number;
+}
+
+export interface FrameCacheStats {
+    /** Количество кадров, взятых из кэша */
+    hits: number;
+
+    /** Количество кадров, которых не оказалось в кэше */
+    misses: number;
+
+    /** Текущий размер кэша, в байтах */
+    bytes: number;
+}
+
+/**
+ * Общий кэш отрисованных кадров для всех анимаций с ограничением по памяти.
+ * При превышении лимита удаляются кадры, которые дольше всего не использовались
+ * (LRU). Кадры приоритетных анимаций (например, тех, что сейчас воспроизводятся)
+ * удаляются в последнюю очередь
+ */
+export class FrameCache {
+    public hits = 0;
+    public misses = 0;
+    public bytes = 0;
+
+    private items = new Map<ID, Map<number, FrameCacheEntry>>();
+
+    /** Все записи кэша в порядке использования: от самых старых к новым */
+    private lru = new Set<FrameCacheEntry>();
+
+    /** Кэш заблокирован: удалённые картинки ещё могут рисоваться */
+    private locked = 0;
+
+    /** Удалённые картинки, которые нужно закрыть после разблокировки кэша */
+    private closeQueue: ImageBitmap[] = [];
+
+    /**
+     * @param isPriority Вернёт `true`, если кадры указанной анимации нужно
+     * удалять из кэша в последнюю очередь
+     */
+    constructor(private isPriority: (id: ID) => boolean) {}
+
+    /**
+     * Вернёт закэшированный кадр, если его размер не меньше указанного
+     */
+    get(id: ID, frame: number, width: number, height: number): FrameImage | undefined {
+        const entry = this.items.get(id)?.get(frame);
+        if (entry && entry.image.width >= width && entry.image.height >= height) {
+            this.hits++;
+            // Поднимаем запись в конец очереди
+            this.lru.delete(entry);
+            this.lru.add(entry);
+            return entry.image;
+        }
+
+        this.misses++;
+        return undefined;
+    }
+
+    /**
+     * Проверяет, что в кэше есть кадр не меньше указанного размера.
+     * В отличие от `get()`, не влияет на статистику и порядок удаления кадров
+     */
+    has(id: ID, frame: number, width: number, height: number): boolean {
+        const entry = this.items.get(id)?.get(frame);
+        return !!entry && entry.image.width >= width && entry.image.height >= height;
+    }
+
+    /**
+     * Записывает кадр в кэш. Если после этого размер кэша превысит `limit`,
+     * удалит давно не используемые кадры. Сам записанный кадр не удаляется,
+     * даже если он один не помещается в лимит
+     */
+    set(id: ID, frame: number, image: FrameImage, limit = Infinity) {
+        let frames = this.items.get(id);
+        if (!frames) {
+            frames = new Map();
+            this.items.set(id, frames);
+        }
+
+        const prev = frames.get(frame);
+        if (prev) {
+            this.remove(prev);
+        }
+
+        const entry: FrameCacheEntry = {
+            id,
+            frame,
+            image,
+            bytes: image.width * image.height * 4
+        };
+
+        frames.set(frame, entry);
+        this.lru.add(entry);
+        this.bytes += entry.bytes;
+        this.evict(limit, entry);
+    }
+
+    /**
+     * Удаляет из кэша все кадры указанной анимации
+     */
+    delete(id: ID) {
+        const frames = this.items.get(id);
+        if (frames) {
+            frames.forEach(entry => this.remove(entry));
+        }
+    }
+
+    /**
+     * Блокирует закрытие удаляемых из кэша картинок: они будут закрыты только
+     * после вызова `unlock()`. Используется, пока кадры из кэша рисуются
+     * в плеерах
+     */
+    lock() {
+        this.locked++;
+    }
+
+    /**
+     * Снимает блокировку, установленную через `lock()`, и закрывает
+     * удалённые за это время картинки
+     */
+    unlock() {
+        this.locked = Math.max(0, this.locked - 1);
+        if (!this.locked && this.closeQueue.length) {
+            const queue = this.closeQueue;
+            this.closeQueue = [];
+            queue.forEach(image => image.close());
+        }
+    }
+
+    /**
+     * Вернёт статистику использования кэша и сбросит счётчики попаданий
+     */
+    flushStats(): FrameCacheStats {
+        const { hits, misses, bytes } = this;
+        this.hits = this.misses = 0;
+        return { hits, misses, bytes };
+    }
+
+    /**
+     * Удаляет кадры из кэша, пока его размер превышает указанный лимит.
+     * Сначала удаляются кадры неприоритетных анимаций
+     * @param keep Запись, которую удалять нельзя
+     */
+    private evict(limit: number, keep?: FrameCacheEntry) {
+        if (this.bytes <= limit) {
+            return;
+        }
+
+        const priority: FrameCacheEntry[] = [];
+        for (const entry of this.lru) {
+            if (this.bytes <= limit) {
+                return;
+            }
+
+            if (entry === keep) {
+                continue;
+            }
+
+            if (this.isPriority(entry.id)) {
+                priority.push(entry);
+            } else {
+                this.remove(entry);
+            }
+        }
+
+        for (let i = 0; i < priority.length && this.bytes > limit; i++) {
+            this.remove(priority[i]);
+        }
+    }
+
+    private remove(entry: FrameCacheEntry) {
+        const frames = this.items.get(entry.id);
+        if (frames?.get(entry.frame) === entry) {
+            frames.delete(entry.frame);
+            if (!frames.size) {
+                this.items.delete(entry.id);
+            }
+        }
+
+        if (this.lru.delete(entry)) {
+            this.bytes -= entry.bytes;
+            if (isImageBitmap(entry.image)) {
+                if (this.locked) {
+                    this.closeQueue.push(entry.image);
+                } else {
+                    // Освобождаем память под картинку, не дожидаясь сборщика мусора
+                    entry.image.close();
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,24 @@
+/** Задержка вызова коллбэка, если браузер не поддерживает `requestIdleCallback` */
+const fallbackDelay = 200;
+
+/** Время, которое считается свободным при вызове коллбэка через `setTimeout` */
+const fallbackBudget = 10;
+
+/**
+ * Вызывает указанную функцию, когда браузер простаивает. Если браузер не
+ * поддерживает `requestIdleCallback` (например, Safari), функция вызывается
+ * с задержкой и получает фиксированный бюджет времени
+ */
+export function requestIdle(callback: (deadline: IdleDeadline) => void): void {
+    if (typeof requestIdleCallback === 'function') {
+        requestIdleCallback(callback);
+    } else {
+        setTimeout(() => {
+            const start = performance.now();
+            callback({
+                didTimeout: false,
+                timeRemaining: () => Math.max(0, fallbackBudget - (performance.now() - start))
+            });
+        }, fallbackDelay);
+    }
+}
@@ -0,0 +1,289 @@
+/**
+ * Распаковка данных, сжатых алгоритмом Deflate (RFC 1951), и gzip-файлов
+ * (RFC 1952). Если браузер поддерживает `DecompressionStream`, используется он,
+ * иначе — встроенная реализация
+ */
+
+type CompressionFormat = 'gzip' | 'deflate-raw';
+
+interface Huffman {
+    /** Количество кодов каждой длины */
+    counts: Uint16Array;
+
+    /** Символы, отсортированные по длине кода */
+    symbols: Uint16Array;
+}
+
+interface BitReader {
+    data: Uint8Array;
+    pos: number;
+    bitBuf: number;
+    bitCnt: number;
+}
+
+const maxBits = 15;
+const lengthBase = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const lengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const distBase = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const distExtra = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/** Порядок длин кодов в заголовке динамического блока */
+const codeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+let fixedTables: [Huffman, Huffman] | undefined;
+
+/**
+ * Проверяет, что указанные данные — gzip-файл
+ */
+export function isGzip(data: Uint8Array): boolean {
+    return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/**
+ * Распаковывает указанные данные
+ */
+export function decompress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+    const Decompression = (globalThis as WebGlobals).DecompressionStream;
+    if (Decompression) {
+        let stream: ReadableStream<Uint8Array> | undefined;
+        try {
+            stream = new Blob([data]).stream().pipeThrough(new Decompression(format));
+        } catch {
+            // Браузер не поддерживает указанный формат: используем
+            // встроенную реализацию
+        }
+
+        if (stream) {
+            return new Response(stream).arrayBuffer().then(buf => new Uint8Array(buf));
+        }
+    }
+
+    return Promise.resolve().then(() => format === 'gzip' ? gunzip(data) : inflateRaw(data));
+}
+
+/**
+ * Распаковка gzip-файла
+ */
+export function gunzip(data: Uint8Array): Uint8Array {
+    if (!isGzip(data) || data[2] !== 8) {
+        throw new Error('Invalid gzip header');
+    }
+
+    const flags = data[3];
+    let pos = 10;
+    if (flags & 4) {
+        // FEXTRA
+        pos += 2 + (data[pos] | (data[pos + 1] << 8));
+    }
+
+    if (flags & 8) {
+        // FNAME
+        while (pos < data.length && data[pos++] !== 0) {}
+    }
+
+    if (flags & 16) {
+        // FCOMMENT
+        while (pos < data.length && data[pos++] !== 0) {}
+    }
+
+    if (flags & 2) {
+        // FHCRC
+        pos += 2;
+    }
+
+    return inflateRaw(data.subarray(pos));
+}
+
+/**
+ * Распаковка данных в формате Deflate без заголовков
+ */
+export function inflateRaw(data: Uint8Array): Uint8Array {
+    const s: BitReader = { data, pos: 0, bitBuf: 0, bitCnt: 0 };
+    let out = new Uint8Array(Math.max(data.length * 4, 1024));
+    let outLen = 0;
+    let last = 0;
+
+    const ensure = (size: number) => {
+        if (outLen + size > out.length) {
+            let nextSize = out.length * 2;
+            while (nextSize < outLen + size) {
+                nextSize *= 2;
+            }
+            const next = new Uint8Array(nextSize);
+            next.set(out.subarray(0, outLen));
+            out = next;
+        }
+    };
+
+    while (!last) {
+        last = bits(s, 1);
+        const type = bits(s, 2);
+
+        if (type === 0) {
+            // Несжатый блок: выравниваемся по байту
+            s.bitBuf = s.bitCnt = 0;
+            if (s.pos + 4 > data.length) {
+                throw new Error('Unexpected end of data');
+            }
+            const len = data[s.pos] | (data[s.pos + 1] << 8);
+            s.pos += 4;
+            if (s.pos + len > data.length) {
+                throw new Error('Unexpected end of data');
+            }
+            ensure(len);
+            out.set(data.subarray(s.pos, s.pos + len), outLen);
+            outLen += len;
+            s.pos += len;
+        } else if (type === 1 || type === 2) {
+            const [lencode, distcode] = type === 1 ? getFixedTables() : readDynamicTables(s);
+            for (;;) {
+                const sym = decode(s, lencode);
+                if (sym < 256) {
+                    ensure(1);
+                    out[outLen++] = sym;
+                } else if (sym === 256) {
+                    break;
+                } else {
+                    const lenSym = sym - 257;
+                    if (lenSym >= lengthBase.length) {
+                        throw new Error('Invalid length code');
+                    }
+                    const len = lengthBase[lenSym] + bits(s, lengthExtra[lenSym]);
+                    const distSym = decode(s, distcode);
+                    if (distSym >= distBase.length) {
+                        throw new Error('Invalid distance code');
+                    }
+                    const dist = distBase[distSym] + bits(s, distExtra[distSym]);
+                    if (dist > outLen) {
+                        throw new Error('Invalid distance');
+                    }
+
+                    ensure(len);
+                    // Копируем побайтово: отрезки могут перекрываться
+                    for (let i = 0; i < len; i++, outLen++) {
+                        out[outLen] = out[outLen - dist];
+                    }
+                }
+            }
+        } else {
+            throw new Error('Invalid block type');
+        }
+    }
+
+    return out.slice(0, outLen);
+}
+
+function bits(s: BitReader, count: number): number {
+    while (s.bitCnt < count) {
+        if (s.pos >= s.data.length) {
+            throw new Error('Unexpected end of data');
+        }
+        s.bitBuf |= s.data[s.pos++] << s.bitCnt;
+        s.bitCnt += 8;
+    }
+
+    const value = s.bitBuf & ((1 << count) - 1);
+    s.bitBuf >>>= count;
+    s.bitCnt -= count;
+    return value;
+}
+
+function decode(s: BitReader, h: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len <= maxBits; len++) {
+        code |= bits(s, 1);
+        const count = h.counts[len];
+        if (code - count < first) {
+            return h.symbols[index + (code - first)];
+        }
+        index += count;
+        first += count;
+        first <<= 1;
+        code <<= 1;
+    }
+
+    throw new Error('Invalid Huffman code');
+}
+
+function buildHuffman(lengths: ArrayLike<number>, offset: number, count: number): Huffman {
+    const counts = new Uint16Array(maxBits + 1);
+    const symbols = new Uint16Array(count);
+    const offsets = new Uint16Array(maxBits + 2);
+
+    for (let i = 0; i < count; i++) {
+        counts[lengths[offset + i]]++;
+    }
+    counts[0] = 0;
+
+    for (let len = 1; len <= maxBits; len++) {
+        offsets[len + 1] = offsets[len] + counts[len];
+    }
+
+    for (let i = 0; i < count; i++) {
+        const len = lengths[offset + i];
+        if (len) {
+            symbols[offsets[len]++] = i;
+        }
+    }
+
+    return { counts, symbols };
+}
+
+function getFixedTables(): [Huffman, Huffman] {
+    if (!fixedTables) {
+        const lengths = new Uint8Array(288 + 30);
+        lengths.fill(8, 0, 144);
+        lengths.fill(9, 144, 256);
+        lengths.fill(7, 256, 280);
+        lengths.fill(8, 280, 288);
+        lengths.fill(5, 288);
+        fixedTables = [buildHuffman(lengths, 0, 288), buildHuffman(lengths, 288, 30)];
+    }
+
+    return fixedTables;
+}
+
+function readDynamicTables(s: BitReader): [Huffman, Huffman] {
+    const nlen = bits(s, 5) + 257;
+    const ndist = bits(s, 5) + 1;
+    const ncode = bits(s, 4) + 4;
+    const lengths = new Uint8Array(nlen + ndist);
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < ncode; i++) {
+        codeLengths[codeLengthOrder[i]] = bits(s, 3);
+    }
+    const lencode = buildHuffman(codeLengths, 0, 19);
+
+    let i = 0;
+    while (i < nlen + ndist) {
+        const sym = decode(s, lencode);
+        if (sym < 16) {
+            lengths[i++] = sym;
+        } else {
+            let value = 0;
+            let repeat: number;
+            if (sym === 16) {
+                if (!i) {
+                    throw new Error('Invalid code lengths');
+                }
+                value = lengths[i - 1];
+                repeat = 3 + bits(s, 2);
+            } else if (sym === 17) {
+                repeat = 3 + bits(s, 3);
+            } else {
+                repeat = 11 + bits(s, 7);
+            }
+
+            if (i + repeat > nlen + ndist) {
+                throw new Error('Invalid code lengths');
+            }
+            lengths.fill(value, i, i + repeat);
+            i += repeat;
+        }
+    }
+
+    return [buildHuffman(lengths, 0, nlen), buildHuffman(lengths, nlen, ndist)];
+}
@@ -0,0 +1,61 @@
+/**
+ * Обходит все слои Lottie-анимации, включая слои вложенных композиций.
+ * В `callback` передаётся слой и путь к нему из названий родительских
+ * слоёв-композиций и самого слоя
+ */
+export function forEachLayer(movie: any, callback: (layer: any, path: string[]) => void) {
+    const assets = new Map<string, any[]>();
+    if (Array.isArray(movie.assets)) {
+        movie.assets.forEach((asset: any) => {
+            if (asset && Array.isArray(asset.layers)) {
+                assets.set(asset.id, asset.layers);
+            }
+        });
+    }
+
+    walkLayers(movie.layers, [], assets, new Set(), callback);
+}
+
+/**
+ * Проверяет, что путь к свойству подходит под указанный шаблон. В шаблоне
+ * можно использовать `*` для любого названия и `**` для любого количества
+ * названий
+ */
+export function matchKeypath(pattern: string[], path: string[], pi = 0, i = 0): boolean {
+    if (pi === pattern.length) {
+        return i === path.length;
+    }
+
+    const head = pattern[pi];
+    if (head === '**') {
+        return matchKeypath(pattern, path, pi + 1, i)
+            || (i < path.length && matchKeypath(pattern, path, pi, i + 1));
+    }
+
+    return i < path.length
+        && (head === '*' || head === path[i])
+        && matchKeypath(pattern, path, pi + 1, i + 1);
+}
+
+function walkLayers(layers: any[], path: string[], assets: Map<string, any[]>, visited: Set<string>, callback: (layer: any, path: string[]) => void) {
+    if (!Array.isArray(layers)) {
+        return;
+    }
+
+    layers.forEach(layer => {
+        if (!layer) {
+            return;
+        }
+
+        const layerPath = [...path, String(layer.nm ?? '')];
+        if (layer.ty === 0 && assets.has(layer.refId) && !visited.has(layer.refId)) {
+            // Слой-композиция: обходим её слои. Следим, чтобы не было
+            // бесконечной рекурсии для композиций, которые ссылаются сами на себя
+            visited.add(layer.refId);
+            walkLayers(assets.get(layer.refId)!, layerPath, assets, visited, callback);
+            visited.delete(layer.refId);
+        } else {
+            callback(layer, layerPath);
+        }
+    });
+}
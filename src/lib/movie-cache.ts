@@ -0,0 +1,171 @@
+import type { MovieSource } from '../types';
+import { getConfig } from './config';
+import { getMovie, isMovieUrl, type Movie } from './utils';
+
+interface MovieCacheEntry {
+    promise: Promise<Movie>;
+
+    /** Контроллер для отмены загрузки. Есть только у загружающихся анимаций */
+    controller?: AbortController;
+
+    /** Количество запросов, которые ждут загрузки анимации */
+    refs: number;
+
+    /** Примерный размер анимации в памяти, в байтах */
+    size: number;
+    loaded: boolean;
+}
+
+/**
+ * Запрос на загрузку анимации
+ */
+export interface MovieRequest {
+    promise: Promise<Movie>;
+
+    /**
+     * Сообщает, что анимация больше не нужна. Если её больше никто не ждёт,
+     * загрузка будет отменена
+     */
+    release(): void;
+}
+
+/** Загруженные и загружающиеся анимации в порядке использования */
+const entries = new Map<string, MovieCacheEntry>();
+let cacheBytes = 0;
+
+/**
+ * Загружает анимацию через общий кэш: одинаковые анимации загружаются
+ * только один раз, даже если их запросили одновременно
+ * @param animationId ID анимации в архиве dotLottie
+ */
+export function requestMovie(source: MovieSource, animationId?: string): MovieRequest {
+    if (source && typeof source === 'object' && !isBinary(source)) {
+        // Объект всё равно будет сериализован в строку
+        source = JSON.stringify(source);
+    }
+
+    const sourceKey = getMovieKey(source);
+    if (sourceKey === undefined) {
+        // Анимацию нельзя закэшировать
+        return { promise: getMovie(source, animationId), release() {} };
+    }
+
+    const key = animationId ? `${sourceKey}#${animationId}` : sourceKey;
+
+    let entry = entries.get(key);
+    if (entry) {
+        // Поднимаем запись в конец очереди
+        entries.delete(key);
+        entries.set(key, entry);
+    } else {
+        entry = createEntry(key, source, animationId);
+    }
+
+    const target = entry;
+    let released = false;
+    target.refs++;
+
+    return {
+        promise: target.promise,
+        release() {
+            if (!released) {
+                released = true;
+                target.refs--;
+                if (!target.loaded && target.refs <= 0 && entries.get(key) === target) {
+                    entries.delete(key);
+                    target.controller?.abort();
+                }
+            }
+        }
+    };
+}
+
+function createEntry(key: string, source: MovieSource, animationId?: string): MovieCacheEntry {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+    const entry: MovieCacheEntry = {
+        promise: getMovie(source, animationId, controller?.signal),
+        controller,
+        refs: 0,
+        size: 0,
+        loaded: false
+    };
+
+    entries.set(key, entry);
+    entry.promise.then(movie => {
+        if (entries.get(key) === entry) {
+            entry.loaded = true;
+            entry.controller = undefined;
+            // Строки в JS хранятся в UTF-16
+            entry.size = movie.data.length * 2;
+            cacheBytes += entry.size;
+            evict();
+        }
+    }, () => {
+        // Не кэшируем ошибки, чтобы анимацию можно было загрузить заново
+        if (entries.get(key) === entry) {
+            entries.delete(key);
+        }
+    });
+
+    return entry;
+}
+
+/**
+ * Удаляет давно не используемые анимации, пока размер кэша превышает лимит
+ */
+function evict() {
+    const limit = getConfig().movieCacheLimit;
+    for (const [key, entry] of entries) {
+        if (cacheBytes <= limit) {
+            break;
+        }
+
+        if (entry.loaded) {
+            entries.delete(key);
+            cacheBytes -= entry.size;
+        }
+    }
+}
+
+/**
+ * Вернёт ключ анимации для кэша: URL для анимаций, загружаемых по URL,
+ * либо хэш содержимого. Для `Blob` вернёт `undefined`: чтобы посчитать хэш,
+ * его нужно прочитать
+ */
+function getMovieKey(source: MovieSource): string | undefined {
+    if (typeof source === 'string') {
+        return isMovieUrl(source)
+            ? `url:${source}`
+            : `json:${hash(source.length, i => source.charCodeAt(i))}`;
+    }
+
+    if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+        const bytes = source instanceof ArrayBuffer
+            ? new Uint8Array(source)
+            : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+        return `bin:${hash(bytes.length, i => bytes[i])}`;
+    }
+
+    return undefined;
+}
+
+/**
+ * Хэш содержимого из двух независимых 32-битных хэшей (FNV-1a и djb2)
+ * и длины: вероятность коллизии для реальных анимаций ничтожна
+ */
+function hash(length: number, charAt: (i: number) => number): string {
+    let fnv = 0x811c9dc5;
+    let djb = 5381;
+    for (let i = 0; i < length; i++) {
+        const c = charAt(i);
+        fnv = Math.imul(fnv ^ c, 0x01000193);
+        djb = (Math.imul(djb, 33) + c) | 0;
+    }
+
+    return `${length}:${(fnv >>> 0).toString(36)}:${(djb >>> 0).toString(36)}`;
+}
+
+function isBinary(source: object): boolean {
+    return source instanceof ArrayBuffer || ArrayBuffer.isView(source)
+        || (typeof Blob !== 'undefined' && source instanceof Blob);
+}
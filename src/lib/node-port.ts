@@ -0,0 +1,22 @@
+import { parentPort } from 'node:worker_threads';
+
+/**
+ * Код воркера рассчитан на веб-воркер и общается с основным потоком через
+ * `self`. В Node.js подставляем вместо него порт `worker_threads`.
+ * Модуль нужно импортировать до кода воркера
+ */
+if (parentPort) {
+    const port = parentPort;
+    Object.assign(globalThis, {
+        self: {
+            addEventListener(type: string, listener: (evt: { data: unknown }) => void) {
+                if (type === 'message') {
+                    port.on('message', data => listener({ data }));
+                }
+            },
+            postMessage(message: unknown, transfer?: Transferable[]) {
+                port.postMessage(message, transfer);
+            }
+        }
+    });
+}
@@ -0,0 +1,133 @@
+/**
+ * Кодирование пиксельных данных RGBA в PNG без DOM. Для сжатия используется
+ * `CompressionStream`, а если его нет — данные записываются без сжатия
+ */
+
+const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Максимальный размер несжатого блока Deflate */
+const maxStoredBlock = 0xffff;
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Кодирует указанный кадр в PNG
+ * @param data Пиксельные данные в формате RGBA
+ */
+export function encodePng(data: Uint8Array, width: number, height: number): Promise<Uint8Array> {
+    // Каждая строка изображения начинается с типа фильтра: 0 — без фильтра
+    const stride = width * 4;
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    return deflate(raw).then(compressed => {
+        const header = new Uint8Array(13);
+        const view = new DataView(header.buffer);
+        view.setUint32(0, width);
+        view.setUint32(4, height);
+        header[8] = 8; // 8 бит на канал
+        header[9] = 6; // RGBA
+
+        return concat([
+            new Uint8Array(signature),
+            chunk('IHDR', header),
+            chunk('IDAT', compressed),
+            chunk('IEND', new Uint8Array(0))
+        ]);
+    });
+}
+
+/**
+ * Сжимает данные в формате zlib
+ */
+function deflate(data: Uint8Array): Promise<Uint8Array> {
+    const Compression = (globalThis as WebGlobals).CompressionStream;
+    if (Compression) {
+        const stream = new Blob([data]).stream().pipeThrough(new Compression('deflate'));
+        return new Response(stream).arrayBuffer().then(buf => new Uint8Array(buf));
+    }
+
+    return Promise.resolve(store(data));
+}
+
+/**
+ * Записывает данные в формате zlib без сжатия
+ */
+function store(data: Uint8Array): Uint8Array {
+    const blocks = Math.max(1, Math.ceil(data.length / maxStoredBlock));
+    const out = new Uint8Array(2 + blocks * 5 + data.length + 4);
+    const view = new DataView(out.buffer);
+    let pos = 0;
+
+    // Заголовок zlib: Deflate с окном 32 КБ, без словаря
+    out[pos++] = 0x78;
+    out[pos++] = 0x01;
+
+    for (let i = 0; i < blocks; i++) {
+        const block = data.subarray(i * maxStoredBlock, (i + 1) * maxStoredBlock);
+        out[pos++] = i === blocks - 1 ? 1 : 0;
+        view.setUint16(pos, block.length, true);
+        view.setUint16(pos + 2, ~block.length & 0xffff, true);
+        pos += 4;
+        out.set(block, pos);
+        pos += block.length;
+    }
+
+    view.setUint32(pos, adler32(data));
+    return out;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+    const out = new Uint8Array(data.length + 12);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+        out[4 + i] = type.charCodeAt(i);
+    }
+    out.set(data, 8);
+    view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+    return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let pos = 0;
+    parts.forEach(part => {
+        out.set(part, pos);
+        pos += part.length;
+    });
+    return out;
+}
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < data.length; i++) {
+        a = (a + data[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+
+    return ((b << 16) | a) >>> 0;
+}
@@ -0,0 +1,191 @@
+import type { MovieSource, PlayerOptions, PosterImage } from '../types';
+import type Player from './Player';
+
+/** Название хранилища Cache Storage для первых кадров анимаций */
+const posterCacheName = 'lottie-player-posters';
+
+/** Первые кадры, которые сейчас сохраняются в постоянный кэш */
+const pendingPosters = new Set<string>();
+
+/**
+ * Показывает в холсте плеера заглушку и постер, пока не отрисован первый
+ * настоящий кадр анимации
+ * @param persistent Можно ли хранить первый кадр в постоянном кэше: для этого
+ * у плеера должен быть явно указан `id`
+ */
+export function showPoster(player: Player, options: Pick<PlayerOptions, 'movie' | 'poster' | 'placeholder'>, persistent: boolean) {
+    const { ctx, canvas } = player;
+    const { poster, placeholder } = options;
+
+    if (placeholder) {
+        placeholder(ctx, canvas.width, canvas.height);
+    }
+
+    if (!poster) {
+        return;
+    }
+
+    let keyReq: Promise<string> | undefined;
+    if (poster === 'firstFrame' && persistent) {
+        // Ключ зависит от содержимого анимации: если под тем же `id`
+        // окажется другая анимация, старый кадр не будет показан
+        keyReq = getMovieVersion(options.movie).then(version => getPosterKey(player, version));
+        keyReq.catch(() => {});
+
+        // Первый кадр достаточно сохранить один раз
+        const cleanUp = () => {
+            player.off('rendered', onRendered);
+            player.off('dispose', cleanUp);
+        };
+        const onRendered = () => {
+            cleanUp();
+            keyReq!.then(key => savePoster(player, key), () => {});
+        };
+
+        player.on('rendered', onRendered)
+            .on('dispose', cleanUp);
+    }
+
+    loadPoster(poster, keyReq).then(image => {
+        if (!image) {
+            return;
+        }
+
+        // Рисуем постер, только если плеер ещё не отрисовал настоящий кадр
+        if (!player.disposed && player.frame === -1) {
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        }
+
+        if (image !== poster) {
+            image.close();
+        }
+    }, () => {
+        // Не удалось загрузить постер: оставляем заглушку
+    });
+}
+
+/**
+ * Загружает картинку постера. Для `firstFrame` вернёт сохранённый первый кадр
+ * анимации, если он есть в постоянном кэше
+ */
+function loadPoster(poster: PosterImage, keyReq?: Promise<string>): Promise<ImageBitmap | undefined> {
+    if (typeof poster !== 'string') {
+        return Promise.resolve(poster);
+    }
+
+    if (poster === 'firstFrame') {
+        return keyReq
+            ? Promise.all([openCache(), keyReq]).then(([cache, key]) => {
+                if (!cache) {
+                    return undefined;
+                }
+
+                dropStalePosters(cache, key);
+                return cache.match(key).then(res => res ? toBitmap(res) : undefined);
+            })
+            : Promise.resolve(undefined);
+    }
+
+    return fetch(poster, { mode: 'cors' }).then(res => {
+        if (!res.ok) {
+            throw new Error(`Invalid response: ${res.status}: ${res.statusText}`);
+        }
+
+        return toBitmap(res);
+    });
+}
+
+/**
+ * Сохраняет первый кадр анимации плеера в постоянный кэш
+ */
+function savePoster(player: Player, key: string) {
+    if (pendingPosters.has(key)) {
+        return;
+    }
+
+    pendingPosters.add(key);
+    openCache()
+        .then(cache => cache?.match(key).then(res => {
+            if (!res) {
+                return player.snapshot(0, { type: 'image/png' })
+                    .then(blob => cache.put(key, new Response(blob as Blob)));
+            }
+
+            return undefined;
+        }))
+        .catch(() => {
+            // Постоянный кэш недоступен либо кадр не удалось отрисовать:
+            // в следующий раз постера просто не будет
+        })
+        .then(() => pendingPosters.delete(key));
+}
+
+/**
+ * Удаляет из постоянного кэша первые кадры прежних версий анимации
+ * с тем же `id`
+ */
+function dropStalePosters(cache: Cache, key: string) {
+    cache.keys(key, { ignoreSearch: true })
+        .then(requests => Promise.all(requests
+            .filter(req => req.url !== key)
+            .map(req => cache.delete(req))))
+        .catch(() => {});
+}
+
+function openCache(): Promise<Cache | undefined> {
+    // Cache Storage доступен только в защищённом контексте
+    return typeof caches !== 'undefined'
+        ? caches.open(posterCacheName)
+        : Promise.resolve(undefined);
+}
+
+function toBitmap(res: Response): Promise<ImageBitmap> {
+    return res.blob().then(blob => createImageBitmap(blob));
+}
+
+/**
+ * Вернёт ключ для хранения первого кадра анимации плеера. Cache Storage
+ * принимает только HTTP-адреса, поэтому ключ — адрес на текущем домене,
+ * по которому ничего не загружается. Версия анимации указывается
+ * в параметрах адреса, чтобы по пути можно было найти прежние версии
+ */
+function getPosterKey(player: Player, version: string): string {
+    return `${location.origin}/__lottie-player/poster/${encodeURIComponent(String(player.id))}?v=${version}`;
+}
+
+/**
+ * Вернёт версию анимации: хэш её адреса или содержимого
+ */
+function getMovieVersion(movie: MovieSource): Promise<string> {
+    if (typeof movie === 'string') {
+        return Promise.resolve(hash(movie));
+    }
+
+    if (movie instanceof Blob) {
+        return movie.arrayBuffer().then(buf => hash(new Uint8Array(buf)));
+    }
+
+    if (movie instanceof ArrayBuffer) {
+        return Promise.resolve(hash(new Uint8Array(movie)));
+    }
+
+    if (ArrayBuffer.isView(movie)) {
+        return Promise.resolve(hash(new Uint8Array(movie.buffer, movie.byteOffset, movie.byteLength)));
+    }
+
+    return Promise.resolve(hash(JSON.stringify(movie)));
+}
+
+/**
+ * Хэш FNV-1a указанной строки или бинарных данных
+ */
+function hash(data: string | Uint8Array): string {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < data.length; i++) {
+        h ^= typeof data === 'string' ? data.charCodeAt(i) : data[i];
+        h = Math.imul(h, 0x01000193);
+    }
+
+    return `${(h >>> 0).toString(16)}-${data.length.toString(16)}`;
+}
@@ -0,0 +1,46 @@
+import { getConfig } from './config';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let query: MediaQueryList | null | undefined;
+
+/**
+ * Вернёт `true`, если анимации нужно показывать статичными: пользователь
+ * попросил уменьшить движение в настройках системы и в конфиге указано
+ * `reducedMotion: 'respect'`
+ */
+export function isReducedMotion(): boolean {
+    return getConfig().reducedMotion === 'respect' && !!getQuery()?.matches;
+}
+
+/**
+ * Подписка на изменение системной настройки уменьшения движения
+ */
+export function watchReducedMotion(callback: Listener) {
+    const q = getQuery();
+    if (q && !listeners.size) {
+        if ('addEventListener' in q) {
+            q.addEventListener('change', onChange);
+        } else {
+            // Safari до 14 версии
+            (q as MediaQueryList).addListener(onChange);
+        }
+    }
+
+    listeners.add(callback);
+}
+
+function onChange() {
+    listeners.forEach(listener => listener());
+}
+
+function getQuery(): MediaQueryList | null {
+    if (query === undefined) {
+        query = typeof matchMedia === 'function'
+            ? matchMedia('(prefers-reduced-motion: reduce)')
+            : null;
+    }
+
+    return query;
+}
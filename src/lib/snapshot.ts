@@ -0,0 +1,59 @@
+import type { FrameImage, SnapshotType } from '../types';
+import { isImageBitmap } from './utils';
+
+/**
+ * Приводит отрисованный кадр к результату снимка: `ImageBitmap` либо
+ * картинке в указанном формате. Исходный кадр после этого использовать нельзя
+ */
+export function toSnapshot(image: FrameImage, type: SnapshotType = 'bitmap'): Promise<ImageBitmap | Blob> {
+    if (type === 'bitmap') {
+        return isImageBitmap(image)
+            ? Promise.resolve(image)
+            : createImageBitmap(image);
+    }
+
+    return Promise.resolve().then(() => {
+        const canvas = createCanvas(image.width, image.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Unable to create canvas context');
+        }
+
+        if (isImageBitmap(image)) {
+            ctx.drawImage(image, 0, 0);
+            image.close();
+        } else {
+            ctx.putImageData(image, 0, 0);
+        }
+
+        return toBlob(canvas, type);
+    });
+}
+
+function createCanvas(width: number, height: number): BlobCanvas {
+    const { OffscreenCanvas } = globalThis as WebGlobals;
+    if (OffscreenCanvas) {
+        return new OffscreenCanvas(width, height);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+function toBlob(canvas: BlobCanvas, type: string): Promise<Blob> {
+    if (canvas.convertToBlob) {
+        return canvas.convertToBlob({ type });
+    }
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob!(blob => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('Unable to encode image'));
+            }
+        }, type);
+    });
+}
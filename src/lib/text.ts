@@ -0,0 +1,45 @@
+import type { TextMap } from '../types';
+import { forEachLayer, matchKeypath } from './keypath';
+
+/**
+ * Подставляет строки в текстовые слои Lottie-анимации. В качестве ключа
+ * `text` указывается название текстового слоя либо путь к нему через
+ * названия слоёв-композиций (например, `Badge.Counter`)
+ */
+export function applyText(data: string, text: TextMap): string {
+    const rules = Object.keys(text).map(key => {
+        // Просто название слоя ищем на любом уровне вложенности
+        const keypath = key.includes('.') ? key.split('.') : ['**', key];
+        return [keypath, toLottieText(text[key])] as const;
+    });
+
+    if (!rules.length) {
+        return data;
+    }
+
+    const movie = JSON.parse(data);
+    forEachLayer(movie, (layer, path) => {
+        const keyframes = layer.ty === 5 ? layer.t?.d?.k : undefined;
+        if (!Array.isArray(keyframes)) {
+            return;
+        }
+
+        const rule = rules.find(([keypath]) => matchKeypath(keypath, path));
+        if (rule) {
+            keyframes.forEach(keyframe => {
+                if (keyframe?.s) {
+                    keyframe.s.t = rule[1];
+                }
+            });
+        }
+    });
+
+    return JSON.stringify(movie);
+}
+
+/**
+ * В Lottie перевод строки в тексте обозначается символом `\r`
+ */
+function toLottieText(text: string): string {
+    return String(text).replace(/\r?\n/g, '\r');
+}
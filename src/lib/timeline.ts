@@ -0,0 +1,64 @@
+import type { PlaybackDirection, PlaybackMode } from '../types';
+
+/**
+ * Параметры таймлайна, по которым вычисляется кадр анимации
+ */
+export interface Timeline {
+    loop: boolean;
+    direction: PlaybackDirection;
+    mode: PlaybackMode;
+
+    /** Первый кадр воспроизводимого сегмента */
+    segmentStart: number;
+
+    /** Последний кадр воспроизводимого сегмента */
+    segmentEnd: number;
+}
+
+/**
+ * Длина одного прохода таймлайна плеера, в кадрах. В режиме `bounce` сегмент
+ * анимации проигрывается дважды: вперёд и назад
+ */
+export function getTimelineLength(timeline: Timeline): number {
+    const span = timeline.segmentEnd - timeline.segmentStart;
+    return timeline.mode === 'bounce' ? span * 2 : span;
+}
+
+/**
+ * Вернёт кадр анимации для указанной позиции на таймлайне с учётом цикла,
+ * направления и режима воспроизведения
+ */
+export function getFrameAt(timeline: Timeline, progress: number): number {
+    const { segmentStart, segmentEnd } = timeline;
+    const span = segmentEnd - segmentStart;
+    const length = getTimelineLength(timeline);
+    let pos = 0;
+
+    if (length > 0) {
+        pos = Math.floor(progress);
+        pos = timeline.loop ? pos % length : Math.min(pos, length);
+        if (pos > span) {
+            // Обратный ход в режиме bounce
+            pos = length - pos;
+        }
+    }
+
+    return timeline.direction === -1 ? segmentEnd - pos : segmentStart + pos;
+}
+
+/**
+ * Вернёт позицию на таймлайне для указанного кадра. Для режима `bounce`
+ * позиция берётся из первой половины прохода
+ */
+export function getProgressAt(timeline: Timeline, frame: number): number {
+    const { segmentStart, segmentEnd } = timeline;
+    frame = Math.max(segmentStart, Math.min(frame, segmentEnd));
+    return timeline.direction === -1 ? segmentEnd - frame : frame - segmentStart;
+}
+
+/**
+ * Вернёт кадр, на котором заканчивается воспроизведение незацикленного плеера
+ */
+export function getEndFrame(timeline: Timeline): number {
+    return getFrameAt(timeline, getTimelineLength(timeline));
+}
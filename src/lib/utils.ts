@@ -1,3 +1,8 @@
+import type { ColorMap, FrameImage, ID, MovieSource, TextMap } from '../types';
+import { PlayerError } from './errors';
+import { decompress, isGzip } from './inflate';
+import { isZip, unpackDotLottie } from './dotlottie';
+
 export interface Deferred<T> {
     promise: Promise<T>;
     resolve: (value: T) => void;
@@ -15,30 +20,151 @@ export function deferred<T>(): Deferred<T> {
     return { promise, resolve, reject };
 }
 
+/**
+ * Загруженная Lottie-анимация
+ */
+export interface Movie {
+    /** Данные анимации (JSON) */
+    data: string;
+
+    /** Настройки воспроизведения из файла анимации, например, из манифеста dotLottie */
+    loop?: boolean;
+    playbackRate?: number;
+}
+
 /**
  * Возвращает содержимое Lottie-анимации для передачи в воркер
+ * @param animationId ID анимации в архиве dotLottie
+ * @param signal Сигнал для отмены загрузки анимации по URL
  */
-export function getMovie(movie: string | object): Promise<string> {
+export function getMovie(movie: MovieSource, animationId?: string, signal?: AbortSignal): Promise<Movie> {
     // NB: не используем async/await для поддержки старых браузеров
     return Promise.resolve().then(() => {
         if (typeof movie === 'string') {
-            if (/^(https?|data|file):/.test(movie)) {
-                return fetch(movie, { mode: 'cors' }).then(res => {
+            if (isMovieUrl(movie)) {
+                return fetch(movie, { mode: 'cors', signal }).then(res => {
                     if (res.ok) {
-                        return res.text();
+                        // Читаем как бинарные данные: это может быть
+                        // сжатый стикер в формате .tgs
+                        return res.arrayBuffer();
                     }
 
-                    throw new Error(`Invalid response: ${res.status}: ${res.statusText}`);
-                });
+                    throw new PlayerError('network', `Invalid response: ${res.status}: ${res.statusText}`);
+                }, (err: Error) => {
+                    throw new PlayerError('network', err.message);
+                }).then(data => decodeMovie(data, animationId));
             }
 
-            return movie;
+            return { data: validateMovie(movie) };
         }
 
-        return JSON.stringify(movie);
+        if (typeof Blob !== 'undefined' && movie instanceof Blob) {
+            return movie.arrayBuffer().then(data => decodeMovie(data, animationId));
+        }
+
+        if (movie instanceof ArrayBuffer || ArrayBuffer.isView(movie)) {
+            return decodeMovie(movie, animationId);
+        }
+
+        return { data: JSON.stringify(movie) };
     });
 }
 
+/**
+ * Проверяет, что анимация указана как URL
+ */
+export function isMovieUrl(movie: MovieSource): boolean {
+    return typeof movie === 'string' && /^(https?|data|file|blob):/.test(movie);
+}
+
+/**
+ * Достаёт JSON анимации из бинарных данных. Если данные сжаты gzip
+ * (например, стикеры в формате .tgs), распакует их. Если это архив
+ * dotLottie, достанет из него указанную анимацию
+ */
+function decodeMovie(data: ArrayBuffer | ArrayBufferView, animationId?: string): Promise<Movie> {
+    const bytes = data instanceof ArrayBuffer
+        ? new Uint8Array(data)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+    if (isZip(bytes)) {
+        return unpackDotLottie(bytes, animationId);
+    }
+
+    // Определяем сжатие по сигнатуре, а не по расширению или заголовкам:
+    // если сервер отдал файл с `Content-Encoding: gzip`, браузер уже
+    // распаковал его сам
+    const payload = isGzip(bytes)
+        ? decompress(bytes, 'gzip').catch((err: Error) => {
+            throw new PlayerError('parse', `Unable to decompress movie: ${err.message}`);
+        })
+        : Promise.resolve(bytes);
+
+    return payload.then(bytes => ({ data: validateMovie(new TextDecoder().decode(bytes)) }));
+}
+
+/**
+ * Проверяет, что в указанной строке содержится корректный JSON анимации
+ */
+function validateMovie(data: string): string {
+    let json: unknown;
+    try {
+        json = JSON.parse(data);
+    } catch (err) {
+        throw new PlayerError('parse', `Invalid movie JSON: ${(err as Error).message}`);
+    }
+
+    if (!json || typeof json !== 'object') {
+        throw new PlayerError('parse', 'Invalid movie JSON: object expected');
+    }
+
+    return data;
+}
+
+/**
+ * Вернёт строковый ключ для указанного словаря: одинаковые словари дают
+ * одинаковый ключ независимо от порядка полей
+ */
+export function getRecordKey(record: Record<string, string> | undefined): string {
+    return record
+        ? Object.keys(record).sort().map(key => `${key}=${record[key]}`).join(';')
+        : '';
+}
+
+/**
+ * Вернёт ID экземпляра анимации: для плееров с одинаковым `id`, но разными
+ * цветами, текстом или анимацией из архива создаются разные экземпляры
+ */
+export function getInstanceId(id: ID, options: { animationId?: string, text?: TextMap, colors?: ColorMap }): ID {
+    const textKey = getRecordKey(options.text);
+    const colorsKey = getRecordKey(options.colors);
+    if (!textKey && !colorsKey && !options.animationId) {
+        return id;
+    }
+
+    let result = String(id);
+    if (options.animationId) {
+        result += `:animation(${options.animationId})`;
+    }
+
+    if (textKey) {
+        result += `:text(${textKey})`;
+    }
+
+    if (colorsKey) {
+        result += `:colors(${colorsKey})`;
+    }
+
+    return result;
+}
+
+/**
+ * Проверяет, что указанный кадр является `ImageBitmap`
+ */
+export function isImageBitmap(image: FrameImage): image is ImageBitmap {
+    return !('data' in image);
+}
+
 export function isSameSize(canvas: HTMLCanvasElement, frame: ImageData): boolean {
     return frame.width === canvas.width && frame.height === canvas.height;
 }
@@ -0,0 +1,65 @@
+import type Player from './Player';
+
+interface VisibilityEntry {
+    player: Player;
+
+    /** Холст плеера находится во вьюпорте */
+    intersecting: boolean;
+}
+
+const entries = new Map<Element, VisibilityEntry>();
+let observer: IntersectionObserver | undefined;
+
+/**
+ * Начинает следить за видимостью плеера: плеер считается видимым, если его
+ * холст попадает во вьюпорт и сама страница не скрыта
+ */
+export function observeVisibility(player: Player) {
+    if (typeof IntersectionObserver === 'undefined') {
+        return;
+    }
+
+    if (!observer) {
+        observer = new IntersectionObserver(onIntersect);
+        document.addEventListener('visibilitychange', onVisibilityChange);
+    }
+
+    entries.set(player.canvas, { player, intersecting: true });
+    observer.observe(player.canvas);
+    updateVisibility(entries.get(player.canvas)!);
+}
+
+/**
+ * Перестаёт следить за видимостью плеера
+ */
+export function unobserveVisibility(player: Player) {
+    const entry = entries.get(player.canvas);
+    if (observer && entry?.player === player) {
+        entries.delete(player.canvas);
+        observer.unobserve(player.canvas);
+
+        if (!entries.size) {
+            observer.disconnect();
+            observer = undefined;
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+        }
+    }
+}
+
+function onIntersect(records: IntersectionObserverEntry[]) {
+    records.forEach(record => {
+        const entry = entries.get(record.target);
+        if (entry) {
+            entry.intersecting = record.isIntersecting;
+            updateVisibility(entry);
+        }
+    });
+}
+
+function onVisibilityChange() {
+    entries.forEach(updateVisibility);
+}
+
+function updateVisibility(entry: VisibilityEntry) {
+    entry.player.setVisible(entry.intersecting && !document.hidden);
+}
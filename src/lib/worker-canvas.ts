@@ -0,0 +1,157 @@
+import type { CanvasEvent, CanvasState, OffscreenCanvasLike } from '../types';
+import { getEndFrame, getFrameAt, getProgressAt, getTimelineLength, type Timeline } from './timeline';
+
+/**
+ * Функция для отрисовки кадра анимации. Вернёт пиксельные данные кадра
+ * либо `undefined`, если кадр отрисовать не удалось
+ */
+export type FrameRenderer = (frame: number, width: number, height: number) => Uint8Array | void;
+
+/**
+ * Холст, переданный из основного потока, в который воркер сам рисует анимацию
+ * по своему таймлайну
+ */
+export class WorkerCanvas implements Timeline {
+    public frame = -1;
+    private ctx: CanvasRenderingContext2D | null;
+    private start = 0;
+    private progress = 0;
+    private seekFrame: number | undefined;
+    private dirty = true;
+
+    constructor(public readonly canvasId: number,
+        private canvas: OffscreenCanvasLike,
+        private state: CanvasState,
+        private renderer: FrameRenderer) {
+        this.ctx = canvas.getContext('2d');
+        this.resize();
+    }
+
+    get loop() {
+        return this.state.loop;
+    }
+
+    get direction() {
+        return this.state.direction;
+    }
+
+    get mode() {
+        return this.state.mode;
+    }
+
+    get segmentStart() {
+        return this.state.segmentStart;
+    }
+
+    get segmentEnd() {
+        return this.state.segmentEnd;
+    }
+
+    /**
+     * Обновляет состояние холста
+     * @param seek Если указан, холст перейдёт к этому кадру
+     */
+    update(state: Partial<CanvasState> = {}, seek?: number) {
+        const prev = this.state;
+        this.state = { ...prev, ...state };
+
+        if (prev.paused !== this.state.paused || prev.playbackRate !== this.state.playbackRate) {
+            // Время начала будет пересчитано из текущей позиции на таймлайне
+            this.start = 0;
+        }
+
+        if (prev.width !== this.state.width || prev.height !== this.state.height) {
+            this.resize();
+        }
+
+        if (prev.fill !== this.state.fill) {
+            this.dirty = true;
+        }
+
+        if (seek !== undefined) {
+            this.seekFrame = seek;
+        } else if (!this.state.paused && this.isFinished()) {
+            // Анимация доиграла до конца: начинаем сначала
+            this.seekFrame = getFrameAt(this, 0);
+        }
+    }
+
+    /**
+     * Отрисовка холста в текущий момент времени
+     * @returns `true`, если холст нужно продолжать отрисовывать на следующих кадрах
+     */
+    tick(time: number): boolean {
+        const { state } = this;
+        let frame = this.frame;
+
+        if (this.seekFrame !== undefined) {
+            frame = this.seekFrame;
+            this.progress = getProgressAt(this, frame);
+            this.seekFrame = undefined;
+            this.start = 0;
+        } else if (!state.paused) {
+            const frameTime = 1000 / state.frameRate;
+            if (!this.start) {
+                this.start = time - (this.progress * frameTime / state.playbackRate);
+            }
+            this.progress = (time - this.start) * state.playbackRate / frameTime;
+            frame = getFrameAt(this, this.progress);
+        }
+
+        if (frame !== -1 && (frame !== this.frame || this.dirty)) {
+            const isInitial = this.frame === -1;
+            this.draw(frame);
+            this.emit(isInitial ? 'rendered' : 'frame');
+        }
+
+        if (!state.paused && this.isFinished() && this.frame === getEndFrame(this)) {
+            this.state.paused = true;
+            this.start = 0;
+            this.emit('end');
+        }
+
+        return !state.paused;
+    }
+
+    private draw(frame: number) {
+        const { ctx, state } = this;
+        const { width, height } = state;
+        const data = this.renderer(frame, width, height);
+        this.frame = frame;
+        this.dirty = false;
+
+        if (ctx && data) {
+            const clampedBuffer = new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength);
+            ctx.putImageData(new ImageData(clampedBuffer, width, height), 0, 0);
+
+            if (state.fill) {
+                // Рисуем одноцветную форму по непрозрачным пикселям кадра
+                ctx.save();
+                ctx.globalCompositeOperation = 'source-in';
+                ctx.fillStyle = state.fill;
+                ctx.fillRect(0, 0, width, height);
+                ctx.restore();
+            }
+        }
+    }
+
+    private resize() {
+        this.canvas.width = this.state.width;
+        this.canvas.height = this.state.height;
+        this.dirty = true;
+    }
+
+    private isFinished(): boolean {
+        return !this.state.loop && Math.floor(this.progress) >= getTimelineLength(this);
+    }
+
+    private emit(name: CanvasEvent['name']) {
+        const evt: CanvasEvent = {
+            type: 'canvas',
+            canvasId: this.canvasId,
+            name,
+            frame: this.frame
+        };
+        self.postMessage(evt);
+    }
+}
@@ -1,5 +1,6 @@
-import type { RequestMap, WorkerRequest, WorkerMessage } from '../types';
+import type { RequestMap, WorkerRequest, WorkerMessage, CanvasEvent } from '../types';
 import { getConfig } from './config';
+import { PlayerError, WorkerError } from './errors';
 import { type Deferred, deferred } from './utils';
 
 export const workerPool: WorkerInstance[] = [];
@@ -9,42 +10,82 @@ let workerId = 1;
 
 export class WorkerInstance {
     public refs = 0;
+    public crashed = false;
     public readonly id: number;
+
+    /** Время запуска воркера, используется для подсчёта его загрузки */
+    public readonly created = performance.now();
+
+    /** Суммарное время отрисовки и копирования кадров в воркере, в мс */
+    public busyTime = 0;
     private deferred = deferred<WorkerInstance>();
     private worker: Worker | undefined;
     private seq = 0;
     private requests = new Map<number, Deferred<any>>();
+    private crashListeners: Array<(err: PlayerError) => void> = [];
+    private canvasListeners: Array<(evt: CanvasEvent) => void> = [];
 
     constructor() {
         this.id = workerId++;
     }
 
-    onMessage = (evt: MessageEvent<WorkerMessage>) => {
-        if ('seq' in evt.data) {
-            const { seq, payload } = evt.data;
+    onMessage = (evt: MessageEvent<WorkerMessage | CanvasEvent>) => {
+        if ('type' in evt.data && evt.data.type === 'canvas') {
+            const payload = evt.data;
+            this.canvasListeners.forEach(listener => listener(payload));
+        } else if ('seq' in evt.data) {
+            const { seq, payload, error } = evt.data;
             const resp = this.requests.get(seq);
             if (resp) {
                 this.requests.delete(seq);
-                resp.resolve(payload);
+                if (error) {
+                    resp.reject(new WorkerError(error.code, error.message));
+                } else {
+                    resp.resolve(payload);
+                }
             }
         }
     }
 
+    onError = (evt: ErrorEvent) => {
+        this.crash(new PlayerError('worker-crash', String(evt.error || evt.message || 'Worker crashed')));
+    }
+
     get promise(): Promise<WorkerInstance> {
         return this.deferred.promise;
     }
 
+    /**
+     * Количество запросов, ожидающих ответа от воркера
+     */
+    get queue(): number {
+        return this.requests.size;
+    }
+
     /**
      * Шлёт запрос в указанный воркер
+     * @param timeout Если указано, запрос завершится ошибкой `ETIMEOUT`, если
+     * воркер не ответит за указанное время (в миллисекундах)
+     * @param transfer Объекты, которые нужно передать в воркер без копирования
      */
-    send<K extends keyof RequestMap>(name: K, payload: RequestMap[K][0]): Promise<RequestMap[K][1]> {
+    send<K extends keyof RequestMap>(name: K, payload: RequestMap[K][0], timeout?: number, transfer?: Transferable[]): Promise<RequestMap[K][1]> {
         this.seq = (this.seq + 1) % maxSeq;
         const seq = this.seq;
         const req: WorkerRequest<K> = { name, payload, seq };
         const resp = deferred<RequestMap[K][1]>();
         if (this.worker) {
             this.requests.set(seq, resp);
-            this.worker.postMessage(req);
+            this.worker.postMessage(req, transfer || []);
+
+            if (timeout) {
+                const timer = setTimeout(() => {
+                    if (this.requests.delete(seq)) {
+                        resp.reject(new WorkerError('ETIMEOUT', `Request "${name}" timed out after ${timeout}ms`));
+                    }
+                }, timeout);
+                const clear = () => clearTimeout(timer);
+                resp.promise.then(clear, clear);
+            }
         } else {
             resp.reject(new Error('Worker is not mounted'));
         }
@@ -55,9 +96,57 @@ export class WorkerInstance {
     attach(worker: Worker) {
         this.worker = worker;
         this.worker.addEventListener('message', this.onMessage);
+        this.worker.addEventListener('error', this.onError);
         this.deferred.resolve(this);
     }
 
+    /**
+     * Помечает воркер как упавший: останавливает его, отклоняет все ожидающие
+     * запросы и уведомляет подписчиков. Вызывается, если воркер выбросил
+     * ошибку или перестал отвечать на запросы
+     */
+    crash(err: PlayerError) {
+        if (this.crashed) {
+            return;
+        }
+
+        this.crashed = true;
+
+        // Упавший воркер больше нельзя выдавать новым плеерам
+        const itemIx = workerPool.indexOf(this);
+        if (itemIx !== -1) {
+            workerPool.splice(itemIx, 1);
+        }
+
+        this.requests.forEach(req => req.reject(err));
+        this.requests.clear();
+
+        if (this.worker) {
+            this.worker.removeEventListener('message', this.onMessage);
+            this.worker.removeEventListener('error', this.onError);
+            this.worker.terminate();
+            this.worker = undefined;
+        }
+
+        const listeners = this.crashListeners;
+        this.crashListeners = [];
+        listeners.forEach(listener => listener(err));
+    }
+
+    /**
+     * Подписка на падение воркера после его запуска
+     */
+    onCrash(callback: (err: PlayerError) => void) {
+        this.crashListeners.push(callback);
+    }
+
+    /**
+     * Подписка на события холстов, которые рисуются прямо в воркере
+     */
+    onCanvasEvent(callback: (evt: CanvasEvent) => void) {
+        this.canvasListeners.push(callback);
+    }
+
     fail(err?: Error) {
         this.deferred.reject(err);
     }
@@ -68,8 +157,12 @@ export class WorkerInstance {
             this.requests.clear();
         }
 
+        this.crashListeners = [];
+        this.canvasListeners = [];
+
         if (this.worker) {
             this.worker.removeEventListener('message', this.onMessage);
+            this.worker.removeEventListener('error', this.onError);
             this.worker.terminate();
             this.worker = undefined;
         } else {
@@ -157,12 +250,25 @@ export function allocWorker(): Promise<WorkerInstance> {
 
         const onError = (evt: ErrorEvent) => {
             cleanUp();
-            instance.fail(new Error(evt.error || evt.message));
+            worker.terminate();
+            failWorker(instance, String(evt.error || evt.message));
         };
 
         worker.addEventListener('message', onMessage);
         worker.addEventListener('error', onError);
-    });
+    }).catch((err: Error) => failWorker(instance, err.message));
+}
+
+/**
+ * Помечает инстанс воркера как незапустившийся и удаляет его из пула, чтобы
+ * следующие плееры могли попробовать создать новый воркер
+ */
+function failWorker(instance: WorkerInstance, message: string) {
+    const itemIx = workerPool.indexOf(instance);
+    if (itemIx !== -1) {
+        workerPool.splice(itemIx, 1);
+    }
+    instance.fail(new PlayerError('worker-init', message));
 }
 
 /**
@@ -175,7 +281,11 @@ export function allocWorker(): Promise<WorkerInstance> {
         if (typeof workerUrl === 'string') {
             workerUrlLoader = Promise.resolve(workerUrl);
         } else {
-            workerUrlLoader = workerUrl;
+            // Если загрузить не удалось, попробуем ещё раз при следующем запросе
+            workerUrlLoader = workerUrl.catch(err => {
+                workerUrlLoader = undefined;
+                throw err;
+            });
         }
     }
 
@@ -183,5 +293,5 @@ export function allocWorker(): Promise<WorkerInstance> {
 }
 
 function terminateErr() {
-    return new Error('ETERMINATE');
+    return new WorkerError('ETERMINATE', 'ETERMINATE');
 }
@@ -1,12 +1,27 @@
 import Player from './lib/Player';
-import { getMovie } from './lib/utils';
+import { deferred, getInstanceId, isImageBitmap, isMovieUrl, type Deferred, type Movie } from './lib/utils';
+import { requestMovie } from './lib/movie-cache';
+import { inlineAssets, type AssetOptions } from './lib/assets';
+import { applyText } from './lib/text';
 import { allocWorker, releaseWorker, workerPool, type WorkerInstance } from './lib/worker-pool';
-import { FrameRequest, FrameResponse, ID, PlayerOptions, RenderResponse, Config, RenderStats } from './types';
+import { CanvasEvent, CanvasState, CreateResponse, FrameImage, FrameRequest, FrameResponse, ID, PlayerOptions, RenderResponse, Config, RenderStats, RenderStatsMap, AnimationStats, StatsSnapshot, WorkerStats, PlaybackMode, PlaybackDirection, Marker, Segment, PlayerErrorType, PosterFrame, ColorMap, TextMap, MovieSource, ImageAsset, PreloadOptions, SnapshotOptions, SnapshotType, RenderFrameOptions, PosterImage, PlaceholderRenderer } from './types';
 import { getConfig } from './lib/config';
+import { FrameCache } from './lib/frame-cache';
+import { getEndFrame, getFrameAt, getProgressAt, getTimelineLength } from './lib/timeline';
+import { observeVisibility, unobserveVisibility } from './lib/visibility';
+import { isReducedMotion, watchReducedMotion } from './lib/reduced-motion';
+import { requestIdle } from './lib/idle';
+import { toSnapshot } from './lib/snapshot';
+import { showPoster } from './lib/poster';
+import { defineElement } from './lib/element';
+import { PlayerError, WorkerError, toPlayerError } from './lib/errors';
 
 export { updateConfig, getConfig } from './lib/config';
+export { PlayerError } from './lib/errors';
 export type { Player };
-export type { PlayerOptions, Config, ID };
+export type { PlayerEventMap, PlayerEvent } from './lib/Player';
+export type { LottiePlayerElement } from './lib/element';
+export type { PlayerOptions, Config, ID, PlaybackMode, PlaybackDirection, Marker, Segment, PlayerErrorType, PosterFrame, ColorMap, TextMap, MovieSource, ImageAsset, PreloadOptions, SnapshotOptions, SnapshotType, RenderFrameOptions, PosterImage, PlaceholderRenderer, RenderStats, RenderStatsMap, AnimationStats, WorkerStats, StatsSnapshot };
 
 interface PlayerRegistryItem {
     id: ID;
@@ -23,19 +38,129 @@ interface PlayerRegistryItem {
     /** Всего кадров в анимации */
     totalFrames: number;
 
+    /** Маркеры анимации */
+    markers: Marker[];
+
     /** Время начала воспроизведения */
     start: number;
 
-    /** Кэш отрисованных кадров */
-    frameCache?: ImageData[];
+    /**
+     * Текущая позиция на таймлайне группы, в кадрах (с учётом скорости
+     * воспроизведения). Из неё вычисляется кадр с учётом направления и режима
+     */
+    progress: number;
+
+    /**
+     * Кадр, на который перешли через `seek()`. Его нужно отрисовать во всех
+     * плеерах группы, даже если они стоят на паузе
+     */
+    seek?: number;
 
     /** Инстанс воркера-отрисовщика, закреплённого за текущим элементом */
     worker?: WorkerInstance;
+
+    /**
+     * Данные анимации. Сохраняем, чтобы пересоздать анимацию в новом воркере,
+     * если текущий упадёт
+     */
+    data?: string;
+
+    /** Настройки воспроизведения из файла анимации */
+    settings?: Omit<Movie, 'data'>;
+
+    /** Перекраска анимации, общая для всех плееров записи */
+    colors?: ColorMap;
+
+    /** Количество перезапусков анимации после падения воркера */
+    restarts: number;
+
+    /**
+     * Отменяет загрузку анимации и освобождает выделенный для неё воркер.
+     * Есть только у записей, которые ещё не смонтированы
+     */
+    cancel?: () => void;
+
+    /** Выполнится, когда анимация записи будет смонтирована */
+    ready: Deferred<void>;
+
+    /** Таймер удаления записи, загруженной через `preload()` и не используемой плеерами */
+    expireTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Параметры анимации, общие для всех плееров записи реестра
+ */
+interface RegistryItemOptions {
+    colors?: ColorMap;
+    text?: TextMap;
+    animationId?: string;
+    assets?: AssetOptions;
 }
 
 /** Реестр всех зарегистрированных плееров и привязанным к ним воркерам */
 const registry = new Map<ID, PlayerRegistryItem>();
 
+/**
+ * Кэш отрисованных кадров. Кадры анимаций, которые сейчас воспроизводятся,
+ * удаляются из кэша в последнюю очередь
+ */
+const frameCache = new FrameCache(id => !!registry.get(id)?.players.some(isPlaying));
+
+/** Накопленная статистика отрисовки анимаций из реестра */
+const animationStats = new Map<ID, AnimationStats>();
+
+/** Воркеры, на падение которых подписан контроллер */
+const watchedWorkers = new WeakSet<WorkerInstance>();
+
+/**
+ * Максимальное количество перезапусков анимации после падения воркера.
+ * Если анимация роняет воркер чаще, скорее всего, проблема в ней самой
+ */
+const maxRestarts = 3;
+
+/**
+ * Плееры в режиме `offscreen`, чьи холсты переданы в воркеры, и идентификаторы
+ * этих холстов
+ */
+const offscreenCanvases = new Map<Player, { canvasId: number, worker: WorkerInstance }>();
+let canvasId = 0;
+
+/** Счётчик для ID временных экземпляров анимаций в `renderFrame()` */
+let snapshotId = 0;
+
+/** Количество перезапущенных воркеров с момента последнего отчёта статистики */
+let workerRestarts = 0;
+
+/** Включён ли режим уменьшения движения на момент последней отрисовки */
+let motionReduced = false;
+
+/**
+ * Плееры, в которых нужно перерисовать кадр, даже если его номер
+ * не поменялся. Например, после перекраски анимации
+ */
+const stalePlayers = new WeakSet<Player>();
+
+/** Запланирована или выполняется предварительная отрисовка кадров */
+let precacheScheduled = false;
+
+/** Сглаженное время отрисовки кадров воркерами в основном цикле */
+let avgFrameTime = 0;
+
+/** Текущая задержка предварительной отрисовки, если основной цикл не успевает */
+let precacheBackoff = 0;
+
+/**
+ * Если воркеры в основном цикле рисуют кадры дольше этого времени (в мс),
+ * предварительная отрисовка откладывается
+ */
+const precacheMaxFrameTime = 10;
+
+/** Максимальная задержка предварительной отрисовки, в мс */
+const precacheMaxBackoff = 2000;
+
+/** Количество кадров, которые отрисовываются заранее за один раз */
+const precacheBatchSize = 4;
+
 /** Глобальный флаг для остановки всех плееров */
 let paused = false;
 let rafId: number = 0;
@@ -78,24 +203,165 @@ function wasmIsSupported() {
 }
 
 /**
- * Буфферный canvas, через который будем рисовать кадры другого размера
+ * Буфферный canvas, через который будем рисовать кадры другого размера.
+ * Создаётся при первой необходимости, чтобы модуль можно было импортировать
+ * в окружении без DOM
  */
- const bufCanvas = document.createElement('canvas');
+let bufCanvas: HTMLCanvasElement | undefined;
 
 /**
  * Создаёт плеер для указанной анимации
  */
 export function createPlayer(options: PlayerOptions): Player {
-    const player = new Player(options);
-    registerPlayer(player, options.movie);
+    const player = new Player(options, snapshotPlayer);
+    let playerId = player.id;
+    const assets = getAssetOptions(options.movie, options);
 
-    player
-        .on('play', () => scheduleRender())
-        .on('dispose', () => unregisterPlayer(player))
-        .on('resize', () => orderInstances(player.id));
+    if (player.offscreen) {
+        // Воркер сам рисует анимацию: передаём ему все изменения плеера
+        const update = () => updateCanvas(player);
+        player
+            .on('mount', () => attachCanvas(player))
+            .on('play', update)
+            .on('pause', update)
+            .on('visible', update)
+            .on('hidden', update)
+            .on('ratechange', update)
+            .on('fillchange', update)
+            .on('resize', update)
+            .on('seek', frame => updateCanvas(player, frame))
+            .on('dispose', () => {
+                detachCanvas(player);
+                unregisterPlayer(player);
+            });
+    } else {
+        player
+            .on('play', () => {
+                if (isFinished(player)) {
+                    // Анимация уже доиграла до конца: начинаем сначала
+                    seekGroup(player.id, getFrameAt(player, 0));
+                }
+                scheduleRender();
+            })
+            .on('seek', frame => seekGroup(player.id, frame))
+            .on('ratechange', () => resetStart(player.id))
+            .on('colorchange', () => {
+                reassignPlayer(player, playerId, options.movie, assets);
+                playerId = player.id;
+            })
+            .on('fillchange', () => repaintPlayer(player))
+            .on('visible', () => scheduleRender())
+            .on('dispose', () => unregisterPlayer(player))
+            .on('resize', () => orderInstances(player.id));
+
+        if (options.poster || options.placeholder) {
+            showPoster(player, options, options.id !== undefined);
+        }
+    }
+
+    watchReducedMotion(scheduleRender);
+
+    if (getConfig().autoPause) {
+        observeVisibility(player);
+        player.on('dispose', () => unobserveVisibility(player));
+    }
+
+    registerPlayer(player, options.movie, assets);
     return player;
 }
 
+/**
+ * Заранее загружает анимацию и создаёт её экземпляр в воркере, чтобы плеер,
+ * созданный позже с тем же `id`, смонтировался сразу. Если указано
+ * количество кадров `frames` и включён `cacheFrames`, эти кадры будут заранее
+ * отрисованы в кэш. Если плеер так и не создали, анимация удаляется через
+ * `preloadTimeout` миллисекунд.
+ * Промис выполнится, когда анимация будет готова к воспроизведению, либо
+ * отклонится с ошибкой `PlayerError`
+ */
+export function preload(movie: MovieSource, options: PreloadOptions): Promise<void> {
+    const id = getInstanceId(options.id, options);
+    const item = registry.get(id) || createRegistryItem(id, movie, {
+        colors: options.colors,
+        text: options.text,
+        animationId: options.animationId,
+        assets: getAssetOptions(movie, options)
+    });
+
+    if (!item.players.length) {
+        // Повторная предзагрузка продлевает время жизни анимации
+        clearTimeout(item.expireTimer);
+        item.expireTimer = setTimeout(() => {
+            if (!item.players.length) {
+                disposeRegistryItem(item);
+            }
+        }, getConfig().preloadTimeout);
+    }
+
+    const { frames = 0, width = 0, height = 0 } = options;
+    const dpr = options.dpr || window.devicePixelRatio || 1;
+    return item.ready.promise.then(() => {
+        if (frames > 0 && width > 0 && height > 0 && getConfig().cacheFrames) {
+            return precacheFrames(id, frames, width * dpr, height * dpr);
+        }
+
+        return undefined;
+    });
+}
+
+/**
+ * Отрисовывает указанный кадр анимации в отдельную картинку: `ImageBitmap`
+ * или PNG/WebP-файл. Для этого не нужны ни холст, ни плеер: анимация
+ * создаётся во временном экземпляре в общем пуле воркеров и удаляется
+ * сразу после отрисовки
+ */
+export function renderFrame(movie: MovieSource, frame: number, options: RenderFrameOptions): Promise<ImageBitmap | Blob> {
+    const id = `__snapshot${snapshotId++}`;
+    const workerReq = allocWorker();
+    const movieReq = requestMovie(movie, options.animationId);
+    const { text } = options;
+    const dataReq = movieReq.promise
+        .then(({ data }) => inlineAssets(data, getAssetOptions(movie, options)))
+        .then(data => text ? applyText(data, text) : data);
+
+    const release = () => {
+        movieReq.release();
+        workerReq.then(releaseWorker, () => {});
+    };
+
+    return Promise.all([workerReq, dataReq]).then(([worker, data]) => {
+        return worker.send('create', { id, data, colors: options.colors }).then(resp => {
+            const req: FrameRequest = {
+                id,
+                frame: Math.max(0, Math.min(Math.floor(frame), resp.totalFrames - 1)),
+                width: Math.round(options.width),
+                height: Math.round(options.height)
+            };
+            const result = renderSnapshot(worker, req, options.type);
+            // Экземпляр анимации больше не нужен: удаляем его после отрисовки
+            worker.send('dispose', { id }).catch(() => {});
+            return result;
+        }, err => {
+            throw toPlayerError(err, 'worker-init');
+        });
+    }).then(result => {
+        release();
+        return result;
+    }, err => {
+        release();
+        throw err;
+    });
+}
+
+/**
+ * Регистрирует элемент `<lottie-player>`, который сам создаёт плеер для
+ * анимации из атрибута `src` и удаляет его, когда элемент убирают из документа
+ * @param name Название элемента
+ */
+export function define(name = 'lottie-player') {
+    defineElement(name, createPlayer);
+}
+
 /**
  * Универсальный механизм для удаления плеера: можно передать сам плеер или
  * `<canvas>`, в котором рисуется анимация. Если указать `id` анимации, то будут
@@ -114,8 +380,17 @@ export function disposePlayer(player: ID | HTMLCanvasElement | Player) {
             });
         });
     } else {
-        const item = registry.get(player);
-        item?.players.forEach(item => item.dispose());
+        // Плееры с перекраской или подстановкой текста используют отдельные
+        // экземпляры анимации, поэтому ищем плееры по исходному ID
+        const players: Player[] = [];
+        registry.forEach(item => {
+            item.players.forEach(item => {
+                if (item.baseId === player) {
+                    players.push(item);
+                }
+            });
+        });
+        players.forEach(item => item.dispose());
     }
 }
 
@@ -136,77 +411,501 @@ export function pause() {
     rafId = prevTime = 0;
 }
 
+/**
+ * Вернёт накопленную статистику отрисовки: по каждой анимации с момента её
+ * создания и по каждому запущенному воркеру
+ */
+export function getStats(): StatsSnapshot {
+    const now = performance.now();
+    const animations: StatsSnapshot['animations'] = {};
+    animationStats.forEach((data, id) => {
+        animations[id] = {
+            ...data,
+            players: registry.get(id)?.players.length || 0
+        };
+    });
+
+    return {
+        animations,
+        workers: workerPool.map(worker => getWorkerStats(worker, worker.busyTime, now - worker.created)),
+        cacheBytes: frameCache.bytes
+    };
+}
+
 /**
  * Возвращает внутренности плеера для отладки
  * @private
  */
 export function getInternals() {
-    return { registry, workerPool, paused, rafId };
+    return { registry, workerPool, frameCache, paused, rafId };
+}
+
+/**
+ * Вернёт параметры загрузки внешних картинок анимации
+ */
+function getAssetOptions(movie: MovieSource, options: Pick<PlayerOptions, 'assetBaseUrl' | 'resolveAsset'>): AssetOptions {
+    return {
+        baseUrl: options.assetBaseUrl || (isMovieUrl(movie) ? movie as string : undefined),
+        resolveAsset: options.resolveAsset
+    };
 }
 
 /**
  * Регистрирует указанный плеер в реестре плееров
  */
-function registerPlayer(player: Player, movie: PlayerOptions['movie']) {
+function registerPlayer(player: Player, movie: PlayerOptions['movie'], assets?: AssetOptions) {
     const { id } = player;
     const item = registry.get(id);
     if (item) {
         // Уже есть запись реестра для плеера: значит, воспроизводим группу
+        // или анимация была загружена заранее через `preload()`
+        clearTimeout(item.expireTimer);
         item.players.push(player);
         orderInstances(id);
+        if (item.settings) {
+            player.applyMovieSettings(item.settings);
+        }
         if (item.worker) {
             player.mount(item);
+            if (isReducedMotion()) {
+                // Анимация группы уже стоит на постере, но новый плеер
+                // его ещё не отрисовал
+                updateReducedMotion(item);
+            }
             scheduleRender();
         }
     } else {
-        const item: PlayerRegistryItem = {
-            id,
-            frame: 0,
-            totalFrames: -1,
-            frameRate: 60,
-            start: 0,
-            players: [player]
-        };
-        registry.set(id, item);
-
-        // Параллельно загружаем воркер и ролик.
-        // Не используем async/await для поддержки старых браузеров и для
-        // сокращения кода при транспиляции
-        Promise.all([allocWorker(), getMovie(movie)]).then(([worker, data]) => {
-            // Создаём плеер для ролика
-            worker.send('create', { id, data }).then(resp => {
-                // Убедимся, что запись всё ещё присутствует и актуальна
-                if (registry.get(id) === item) {
-                    item.worker = worker;
-                    item.totalFrames = resp.totalFrames;
-                    if (resp.frameRate) {
-                        item.frameRate = resp.frameRate;
-                    }
-                    item.players.forEach(player => player.mount(resp));
-                    scheduleRender();
-                } else {
-                    releaseWorker(worker);
+        createRegistryItem(id, movie, {
+            colors: player.colors,
+            text: player.text,
+            animationId: player.animationId,
+            assets
+        }).players.push(player);
+    }
+}
+
+/**
+ * Создаёт запись реестра для указанной анимации: загружает анимацию,
+ * выделяет для неё воркер и создаёт в нём экземпляр анимации
+ */
+function createRegistryItem(id: ID, movie: MovieSource, options: RegistryItemOptions): PlayerRegistryItem {
+    const item: PlayerRegistryItem = {
+        id,
+        frame: 0,
+        totalFrames: -1,
+        frameRate: 60,
+        markers: [],
+        start: 0,
+        progress: 0,
+        restarts: 0,
+        colors: options.colors,
+        ready: deferred<void>(),
+        players: []
+    };
+    registry.set(id, item);
+
+    // Чтобы не было ошибки о необработанном промисе, если никто не
+    // ждёт монтирования записи
+    item.ready.promise.catch(() => {});
+
+    // Параллельно загружаем воркер и ролик.
+    // Не используем async/await для поддержки старых браузеров и для
+    // сокращения кода при транспиляции
+    const workerReq = allocWorker();
+    const movieReq = requestMovie(movie, options.animationId);
+    let released = false;
+
+    // Освобождаем ресурсы сразу, не дожидаясь ответа от воркера:
+    // воркер мог успешно выделиться, пока грузился ролик
+    item.cancel = () => {
+        if (!released) {
+            released = true;
+            item.cancel = undefined;
+            movieReq.release();
+            workerReq.then(releaseWorker, () => {});
+        }
+    };
+
+    const onError = (err: unknown) => {
+        item.cancel?.();
+        failRegistryItem(item, toPlayerError(err, 'worker-init'));
+    };
+
+    // Текст подставляем сразу: он не меняется у плеера, поэтому
+    // в реестре можно хранить уже изменённую анимацию
+    const { text } = options;
+    const dataReq = movieReq.promise.then(({ data, ...settings }) => {
+        item.settings = settings;
+        item.players.forEach(player => player.applyMovieSettings(settings));
+        return inlineAssets(data, options.assets);
+    }).then(data => text ? applyText(data, text) : data);
+
+    Promise.all([workerReq, dataReq]).then(([worker, data]) => {
+        if (registry.get(id) !== item) {
+            // Все плееры удалили, пока грузился ролик
+            return;
+        }
+
+        // Создаём плеер для ролика
+        item.data = data;
+        worker.send('create', { id, data, colors: item.colors }).then(resp => {
+            // Убедимся, что запись всё ещё присутствует и актуальна
+            if (registry.get(id) === item && !released) {
+                // Теперь воркер освобождается вместе с записью
+                released = true;
+                item.cancel = undefined;
+                mountItem(item, worker, resp);
+            } else if (!registry.has(id)) {
+                // Воркер уже освобождён, но мог остаться жив, так как
+                // нужен другим анимациям: удаляем из него ненужный инстанс
+                worker.send('dispose', { id }).catch(() => {});
+            }
+        }, err => {
+            if (registry.get(id) !== item) {
+                return;
+            }
+
+            if (worker.crashed) {
+                // Воркер упал, пока создавалась анимация: пробуем в другом
+                item.cancel?.();
+                restoreItem(item, toPlayerError(err, 'worker-crash'));
+            } else {
+                onError(err);
+            }
+        });
+    }, onError);
+
+    return item;
+}
+
+/**
+ * Монтирует анимацию указанной записи реестра, созданную в воркере
+ */
+function mountItem(item: PlayerRegistryItem, worker: WorkerInstance, resp: CreateResponse) {
+    item.totalFrames = resp.totalFrames;
+    item.markers = resp.markers;
+    if (resp.frameRate) {
+        item.frameRate = resp.frameRate;
+    }
+
+    // Время начала будет пересчитано из текущей позиции на таймлайне
+    item.start = 0;
+    attachItemWorker(item, worker);
+    item.players.forEach(player => player.mount(resp));
+    item.ready.resolve();
+    if (isReducedMotion()) {
+        updateReducedMotion(item);
+    }
+    scheduleRender();
+}
+
+/**
+ * Закрепляет воркер за указанной записью реестра
+ */
+function attachItemWorker(item: PlayerRegistryItem, worker: WorkerInstance) {
+    item.worker = worker;
+    if (!watchedWorkers.has(worker)) {
+        watchedWorkers.add(worker);
+        worker.onCrash(err => restoreWorker(worker, err));
+        worker.onCanvasEvent(handleCanvasEvent);
+    }
+}
+
+/**
+ * Восстанавливает все анимации упавшего воркера: для каждой из них выделяется
+ * новый воркер, куда заново отправляются данные анимации. Воспроизведение
+ * продолжится с текущего кадра
+ */
+function restoreWorker(worker: WorkerInstance, err: PlayerError) {
+    workerRestarts++;
+    registry.forEach(item => {
+        if (item.worker === worker) {
+            item.worker = undefined;
+            releaseWorker(worker);
+            item.players.forEach(player => {
+                if (offscreenCanvases.has(player)) {
+                    // Холст был передан в упавший воркер, вернуть его нельзя
+                    offscreenCanvases.delete(player);
+                    player.fail(err);
                 }
             });
+            restoreItem(item, err);
+        }
+    });
+}
+
+/**
+ * Пересоздаёт анимацию указанной записи реестра в новом воркере
+ */
+function restoreItem(item: PlayerRegistryItem, err: PlayerError) {
+    const { id, data, colors } = item;
+    if (registry.get(id) !== item) {
+        return;
+    }
+
+    item.restarts++;
+
+    if (!data || item.restarts > maxRestarts) {
+        failRegistryItem(item, err);
+        return;
+    }
+
+    const onError = (err: unknown) => failRegistryItem(item, toPlayerError(err, 'worker-crash'));
+    allocWorker().then(worker => {
+        worker.send('create', { id, data, colors }).then(resp => {
+            if (registry.get(id) === item && !item.worker) {
+                mountItem(item, worker, resp);
+            } else {
+                releaseWorker(worker);
+            }
+        }, err => {
+            releaseWorker(worker);
+            onError(err);
         });
+    }, onError);
+}
+
+/**
+ * Удаляет запись реестра, для которой не удалось загрузить анимацию, и сообщает
+ * об ошибке всем её плеерам. Запись удаляется, чтобы новый плеер с тем же `id`
+ * мог попробовать загрузить анимацию заново
+ */
+function failRegistryItem(item: PlayerRegistryItem, err: PlayerError) {
+    if (registry.get(item.id) === item) {
+        item.ready.reject(err);
+        disposeRegistryItem(item);
+        item.players.forEach(player => player.fail(err));
+    }
+}
+
+/**
+ * Переносит плеер в другую запись реестра после того, как поменялся ID
+ * его анимации (например, после перекраски). Анимация пересоздаётся только
+ * для этого плеера, остальные плееры прежней группы не изменятся
+ */
+function reassignPlayer(player: Player, prevId: ID, movie: PlayerOptions['movie'], assets?: AssetOptions) {
+    // Если анимация уже загружена, не будем загружать её заново
+    const data = registry.get(prevId)?.data || movie;
+    const { frame } = player;
+
+    unregisterPlayer(player, prevId);
+    stalePlayers.add(player);
+    registerPlayer(player, data, assets);
+
+    const item = registry.get(player.id);
+    if (item && item.players.length === 1 && frame !== -1) {
+        // Новая анимация: продолжаем воспроизведение с текущего кадра
+        seekGroup(item.id, frame);
     }
 }
 
 /**
  * Удаляет указанный плеер из реестра плееров
+ * @param id ID записи реестра, в которой зарегистрирован плеер
  */
-function unregisterPlayer(player: Player) {
-    const { id } = player;
+function unregisterPlayer(player: Player, id = player.id) {
     const item = registry.get(id);
     if (item) {
         item.players = item.players.filter(p => p !== player);
         if (!item.players.length) {
-            registry.delete(id);
+            disposeRegistryItem(item);
+        }
+    }
+}
+
+/**
+ * Удаляет запись реестра и освобождает все её ресурсы
+ */
+function disposeRegistryItem(item: PlayerRegistryItem) {
+    if (registry.get(item.id) === item) {
+        registry.delete(item.id);
+        frameCache.delete(item.id);
+        animationStats.delete(item.id);
+        clearTimeout(item.expireTimer);
+        item.cancel?.();
+        detachWorker(item);
+        // Если анимация так и не смонтировалась, ожидающие её
+        // (например, `preload()`) не должны зависнуть
+        item.ready.reject(new PlayerError('disposed', 'Animation is disposed'));
+    }
+}
+
+/**
+ * Удаляет анимацию указанной записи реестра из воркера и освобождает воркер
+ */
+function detachWorker(item: PlayerRegistryItem) {
+    const { worker } = item;
+    if (worker) {
+        item.worker = undefined;
+        // Воркер может быть общим для нескольких анимаций, поэтому явно
+        // удаляем из него инстанс текущей
+        worker.send('dispose', { id: item.id }).catch(() => {});
+        releaseWorker(worker);
+    }
+}
 
-            if (item.worker) {
-                releaseWorker(item.worker);
+/**
+ * Передаёт холст плеера в режиме `offscreen` в воркер, где смонтирована
+ * анимация плеера
+ */
+function attachCanvas(player: Player) {
+    const worker = registry.get(player.id)?.worker;
+    const canvas = player.offscreenCanvas;
+    if (worker && canvas) {
+        const binding = { canvasId: ++canvasId, worker };
+        player.offscreenCanvas = undefined;
+        offscreenCanvases.set(player, binding);
+        worker.send('attachCanvas', {
+            canvasId: binding.canvasId,
+            id: player.id,
+            canvas,
+            state: getCanvasState(player)
+        }, undefined, [canvas as unknown as Transferable])
+            .catch(err => player.fail(toPlayerError(err, 'worker-init')));
+    }
+}
+
+/**
+ * Передаёт в воркер текущее состояние плеера в режиме `offscreen`
+ * @param seek Кадр, к которому нужно перейти
+ */
+function updateCanvas(player: Player, seek?: number) {
+    const binding = offscreenCanvases.get(player);
+    if (binding) {
+        binding.worker.send('updateCanvas', {
+            canvasId: binding.canvasId,
+            state: getCanvasState(player),
+            seek
+        }).catch(() => {});
+    }
+}
+
+/**
+ * Удаляет холст плеера в режиме `offscreen` из воркера
+ */
+function detachCanvas(player: Player) {
+    const binding = offscreenCanvases.get(player);
+    if (binding) {
+        offscreenCanvases.delete(player);
+        binding.worker.send('detachCanvas', { canvasId: binding.canvasId }).catch(() => {});
+    }
+}
+
+/**
+ * Обработка событий от холстов, которые рисуются в воркере
+ */
+function handleCanvasEvent(evt: CanvasEvent) {
+    offscreenCanvases.forEach((binding, player) => {
+        if (binding.canvasId === evt.canvasId) {
+            if (evt.name === 'error') {
+                // Воркер больше не рисует в этот холст, вернуть его нельзя
+                offscreenCanvases.delete(player);
+                player.fail(new PlayerError('worker-crash', evt.error?.message || 'Unable to render canvas'));
+                return;
+            }
+
+            player.frame = evt.frame;
+            if (evt.name === 'rendered') {
+                player.emit('rendered');
+            } else if (evt.name === 'end') {
+                player.pause();
+                player.emit('end');
             }
         }
+    });
+}
+
+function getCanvasState(player: Player): CanvasState {
+    return {
+        // Скрытый плеер не ставится на паузу, но и рисовать его не нужно
+        paused: player.paused || !player.visible || !player.motionAllowed,
+        loop: player.loop,
+        frameRate: player.frameRate,
+        playbackRate: player.playbackRate,
+        direction: player.direction,
+        mode: player.mode,
+        segmentStart: player.segmentStart,
+        segmentEnd: player.segmentEnd,
+        width: player.width,
+        height: player.height,
+        fill: player.fill
+    };
+}
+
+/**
+ * Переводит таймлайн группы плееров на указанный кадр
+ */
+function seekGroup(id: ID, frame: number) {
+    const item = registry.get(id);
+    if (item) {
+        item.frame = item.seek = frame;
+        item.start = 0;
+
+        // Сразу переносим позицию на таймлайне, чтобы воспроизведение после
+        // перехода не считало анимацию доигранной до конца
+        const player = item.players[0];
+        if (player && player.totalFrames !== -1) {
+            item.progress = getProgressAt(player, frame);
+        }
+        scheduleRender();
+    }
+}
+
+/**
+ * Перерисовывает текущий кадр плеера, например, после смены заливки.
+ * Воспроизводимый плеер перерисуется сам на следующем кадре
+ */
+function repaintPlayer(player: Player) {
+    const item = registry.get(player.id);
+    stalePlayers.add(player);
+    if (item && player.frame !== -1 && !item.players.some(isPlaying)) {
+        seekGroup(item.id, player.frame);
+    } else {
+        scheduleRender();
+    }
+}
+
+/**
+ * Применяет режим уменьшения движения к плеерам указанной записи реестра:
+ * если анимации нельзя воспроизводить, показываем в них статичный кадр,
+ * иначе продолжаем воспроизведение
+ */
+function updateReducedMotion(item: PlayerRegistryItem) {
+    const reduced = isReducedMotion();
+    let poster: Player | undefined;
+    let playing = false;
+
+    item.players.forEach(player => {
+        if (!player.mounted) {
+            return;
+        }
+
+        if (player.offscreen) {
+            updateCanvas(player, player.motionAllowed ? undefined : player.posterFrame);
+        } else if (player.motionAllowed) {
+            playing = true;
+        } else if (!poster && !player.paused) {
+            // Плеер на паузе и так стоит на месте
+            poster = player;
+        }
+    });
+
+    // У плееров группы общий таймлайн: если хотя бы один из них
+    // воспроизводится явно, постер не показываем
+    if (reduced && poster && !playing) {
+        seekGroup(item.id, poster.posterFrame);
+    }
+}
+
+/**
+ * Сбрасывает время начала воспроизведения группы: оно будет заново вычислено
+ * из текущей позиции на таймлайне на следующем кадре. Используется при смене
+ * скорости воспроизведения, чтобы анимация не прыгала
+ */
+function resetStart(id: ID) {
+    const item = registry.get(id);
+    if (item) {
+        item.start = 0;
     }
 }
 
@@ -228,9 +927,9 @@ function orderInstances(id: ID) {
  * Вернёт `true`, если указанный плеер можно воспроизводить
  */
 function isPlaying(player: Player): boolean {
-    return player.paused
+    return player.paused || !player.visible || !player.motionAllowed
         ? false
-        : player.loop || (player.frame < player.totalFrames - 1);
+        : player.loop || !isFinished(player) || player.frame !== getEndFrame(player);
 }
 
 /**
@@ -252,8 +951,25 @@ function render(time: number) {
     const stats: RenderStats = {
         frameTime: 0,
         paintTime: 0,
-        tickDelta
+        tickDelta,
+        workerRestart: workerRestarts,
+        cacheHits: 0,
+        cacheMisses: 0,
+        cacheBytes: 0,
+        animations: {},
+        workers: []
     };
+    workerRestarts = 0;
+
+    schedulePrecache();
+
+    const reduced = isReducedMotion();
+    if (reduced !== motionReduced) {
+        // Поменялась системная настройка или конфиг: в режиме уменьшения
+        // движения показываем постеры, иначе продолжаем воспроизведение
+        motionReduced = reduced;
+        registry.forEach(updateReducedMotion);
+    }
 
     /** Запросы на отрисовку, распределённые между своими воркерами */
     const workerPayload = new Map<WorkerInstance, FrameRequest[]>();
@@ -261,21 +977,56 @@ function render(time: number) {
     // Сформируем нагрузку для отрисовки
     registry.forEach(item => {
         const { worker, players } = item;
-        const firstPlaying = worker && players.find(isPlaying);
-        if (firstPlaying) {
+        // Плееры в режиме offscreen рисуются самим воркером
+        const firstPlaying = worker && players.find(p => !p.offscreen && isPlaying(p));
+        // Если был переход на кадр, его нужно отрисовать даже на паузе
+        const master = firstPlaying || (worker && item.seek !== undefined ? players.find(p => !p.offscreen) : undefined);
+        if (worker && master) {
             // Есть плееры, где надо отрисовать кадры
             rendered = true;
-            if (!item.start) {
-                // Записываем время начала воспроизведения минус
-                // смещение, чтобы начать отрисовывать с указанного кадра
-                item.start = time - ((item.frame % firstPlaying.lastFrame) * firstPlaying.frameTime);
+
+            const animStats = getTickStats(stats, item);
+            let req: FrameRequest;
+            if (item.seek !== undefined) {
+                // Переход на кадр: воспроизведение продолжится с него
+                // на следующем кадре
+                item.seek = Math.min(item.seek, master.lastFrame);
+                item.progress = getProgressAt(master, item.seek);
+                item.start = 0;
+                req = createFrameRequest(master, item.seek);
+            } else {
+                if (!item.start) {
+                    // Записываем время начала воспроизведения минус
+                    // смещение, чтобы начать отрисовывать с указанного кадра
+                    item.start = time - (item.progress * master.frameTime / master.playbackRate);
+                }
+                const progress = (time - item.start) * master.playbackRate / master.frameTime;
+                // Если между тиками таймлайн сдвинулся больше, чем на шаг
+                // воспроизведения, часть кадров не была показана
+                const steps = Math.floor(progress) - Math.floor(item.progress);
+                animStats.droppedFrames += Math.max(0, steps - Math.ceil(master.playbackRate));
+                item.progress = progress;
+                req = toFrameRequest(master, item.progress);
             }
 
-            const req = toFrameRequest(firstPlaying, time - item.start);
-            const cachedFrame = getCachedFrame(req);
-            if (cachedFrame) {
-                stats.paintTime += renderGroup(req.id, req.frame, cachedFrame);
-            } else if (shouldRenderFrame(req.id, req.frame)) {
+            // Кэш проверяем, только если кадр действительно нужно рисовать,
+            // иначе статистика и порядок вытеснения кадров будут искажены
+            const shouldRender = shouldRenderFrame(req.id, req.frame);
+            const cachedFrame = shouldRender ? getCachedFrame(req) : undefined;
+            if (!shouldRender) {
+                // Кадр уже отрисован во всех плеерах
+                item.seek = undefined;
+            } else if (cachedFrame) {
+                const { paints } = animStats;
+                stats.paintTime += renderGroup(req.id, req.frame, cachedFrame, animStats);
+                if (animStats.paints > paints) {
+                    animStats.cacheHits++;
+                }
+            } else {
+                if (getConfig().cacheFrames) {
+                    animStats.cacheMisses++;
+                }
+
                 const queue = workerPayload.get(worker);
                 if (queue) {
                     queue.push(req);
@@ -298,12 +1049,23 @@ function render(time: number) {
         const start = performance.now();
         const promises: Promise<RenderResponse>[] = [];
         workerPayload.forEach((frames, worker) => {
-            const req = worker.send('render', { frames })
+            const sent = performance.now();
+            const req = worker.send('render', { frames }, getConfig().renderTimeout)
+                .then(resp => {
+                    trackWorkerResponse(stats, worker, resp, performance.now() - sent);
+                    return resp;
+                })
                 // Возможна ситуация, когда воркер уже размонтировался
                 // в процессе отрисовки кадра, то есть плееры уже не нужны,
                 // но воркер ещё не успел ответить. В этом случае контроллер сфэйлит все
                 // зависшие запросы в воркере, но мы не должны прерываться
-                .catch(() => ({ frames: [] }));
+                .catch((err: Error) => {
+                    if (err instanceof WorkerError && err.code === 'ETIMEOUT') {
+                        // Воркер завис: перезапускаем его
+                        worker.crash(new PlayerError('worker-crash', err.message));
+                    }
+                    return { frames: [] };
+                });
             promises.push(req);
         });
 
@@ -311,7 +1073,13 @@ function render(time: number) {
             stats.frameTime = performance.now() - start;
             resp.forEach(payload => {
                 payload.frames.forEach(frame => {
-                    stats.paintTime += renderFrameResponse(frame);
+                    stats.paintTime += renderFrameResponse(frame, stats.animations[frame.id]);
+                });
+                payload.errors?.forEach(({ id, error }) => {
+                    const item = registry.get(id);
+                    if (item) {
+                        failRegistryItem(item, new PlayerError('worker-crash', error.message));
+                    }
                 });
             });
             reportStats(stats);
@@ -326,38 +1094,269 @@ function render(time: number) {
 }
 
 /**
- * Вернёт закэшированный кадр, если его можно отрисовать для указанного запроса
+ * Отрисовывает в кэш первые `count` кадров анимации указанного размера.
+ * Кадры рисуются небольшими порциями, чтобы запросы основного цикла
+ * не ждали в очереди воркера всю предварительную отрисовку
  */
-function getCachedFrame(req: FrameRequest): ImageData | void {
-    const item = registry.get(req.id);
-    if (item?.frameCache) {
-        const frame = item.frameCache[req.frame];
-        if (frame && frame.width >= req.width && frame.height >= req.height) {
-            return frame;
+function precacheFrames(id: ID, count: number, width: number, height: number): Promise<void> {
+    const item = registry.get(id);
+    const worker = item?.worker;
+    if (!item || !worker) {
+        return Promise.resolve();
+    }
+
+    const pending: number[] = [];
+    for (let frame = 0; frame < Math.min(count, item.totalFrames); frame++) {
+        if (!frameCache.has(id, frame, width, height)) {
+            pending.push(frame);
         }
     }
+
+    const frameBytes = width * height * 4;
+    const next = (): Promise<void> => {
+        const { frameCacheLimit, renderTimeout } = getConfig();
+        // Не вытесняем из кэша другие кадры ради предварительной отрисовки
+        const budget = Math.floor((frameCacheLimit - frameCache.bytes) / frameBytes);
+        const frames: FrameRequest[] = pending
+            .splice(0, Math.min(precacheBatchSize, budget))
+            .map(frame => ({ id, frame, width, height }));
+
+        if (!frames.length || registry.get(id) !== item || item.worker !== worker) {
+            return Promise.resolve();
+        }
+
+        return worker.send('render', { frames }, renderTimeout).then(resp => {
+            worker.busyTime += getWorkerTime(resp);
+            resp.frames.forEach(payload => {
+                const image = toFrameImage(payload);
+                const cached = registry.get(id) === item && setCachedFrame(id, payload.frame, image);
+                if (!cached && isImageBitmap(image)) {
+                    image.close();
+                }
+            });
+
+            return next();
+        }, () => {
+            // Кадры не удалось отрисовать заранее: ничего страшного,
+            // они отрисуются во время воспроизведения
+        });
+    };
+
+    return next();
 }
 
 /**
- * Записывает отрисованный кадр в кэш
+ * Планирует отрисовку кадров видимых плееров в кэш, когда браузер простаивает
  */
-function setCachedFrame(id: ID, frame: number, image: ImageData) {
-    const item = registry.get(id);
-    if (item && item.totalFrames !== -1) {
-        if (!item.frameCache) {
-            item.frameCache = new Array(item.totalFrames);
+function schedulePrecache() {
+    const { cacheFrames, precache } = getConfig();
+    if (!precacheScheduled && cacheFrames && precache === 'idle' && hasPrecacheFrames()) {
+        precacheScheduled = true;
+        requestIdle(precacheIdleFrames);
+    }
+}
+
+/**
+ * Вернёт `true`, если у видимых плееров есть кадры, которые можно
+ * отрисовать в кэш заранее
+ */
+function hasPrecacheFrames(): boolean {
+    for (const item of registry.values()) {
+        const player = getPrecachePlayer(item);
+        if (player) {
+            const { width, height } = player;
+            if (frameCache.bytes + width * height * 4 > getConfig().frameCacheLimit) {
+                // Кэш заполнен: не вытесняем из него кадры ради предварительной отрисовки
+                return false;
+            }
+
+            for (let frame = 0; frame < item.totalFrames; frame++) {
+                if (!frameCache.has(item.id, frame, width, height)) {
+                    return true;
+                }
+            }
         }
+    }
 
-        item.frameCache[frame] = image;
+    return false;
+}
+
+/**
+ * Вернёт плеер записи реестра, для которого можно заранее отрисовать кадры
+ * в кэш
+ */
+function getPrecachePlayer(item: PlayerRegistryItem): Player | undefined {
+    if (!item.worker || item.totalFrames <= 0) {
+        return undefined;
+    }
+
+    // Плееры отсортированы по размеру: рисуем кадры для самого большого
+    const player = item.players.find(p => !p.offscreen && p.visible && p.width && p.height);
+    if (player && player.width * player.height * 4 * item.totalFrames <= getConfig().frameCacheLimit) {
+        return player;
     }
+
+    // Весь цикл анимации всё равно не поместится в кэш
+    return undefined;
 }
 
-function toFrameRequest(player: Player, elapsed: number): FrameRequest {
-    // В аругументе elapsed указано, сколько времени прошло с начала воспроизведения
-    // плеера — посчитаем из него кадр
-    let frame = Math.floor(elapsed / player.frameTime);
-    frame = player.loop ? frame % player.lastFrame : Math.min(frame, player.lastFrame);
+/**
+ * Отрисовывает в кэш очередную порцию кадров видимых плееров, которых
+ * ещё нет в кэше
+ */
+function precacheIdleFrames(deadline: IdleDeadline) {
+    const { cacheFrames, precache, frameCacheLimit, renderTimeout } = getConfig();
+    if (paused || !cacheFrames || precache !== 'idle') {
+        precacheScheduled = false;
+        return;
+    }
+
+    if (avgFrameTime > precacheMaxFrameTime || deadline.timeRemaining() < 1) {
+        // Основной цикл не успевает отрисовывать кадры: попробуем позже
+        precacheBackoff = Math.min(precacheBackoff * 2 || 100, precacheMaxBackoff);
+        setTimeout(() => requestIdle(precacheIdleFrames), precacheBackoff);
+        return;
+    }
 
+    precacheBackoff = 0;
+
+    const workerPayload = new Map<WorkerInstance, FrameRequest[]>();
+    let count = 0;
+    let bytes = frameCache.bytes;
+
+    registry.forEach(item => {
+        const { id, worker, totalFrames } = item;
+        const player = getPrecachePlayer(item);
+        if (!worker || !player || count >= precacheBatchSize) {
+            return;
+        }
+
+        const { width, height } = player;
+        const frameBytes = width * height * 4;
+
+        // Начинаем с кадров, которые скоро понадобятся
+        for (let i = 1; i <= totalFrames && count < precacheBatchSize; i++) {
+            const frame = (item.frame + i) % totalFrames;
+            if (!frameCache.has(id, frame, width, height)) {
+                if (bytes + frameBytes > frameCacheLimit) {
+                    // Не вытесняем из кэша другие кадры ради предварительной отрисовки
+                    return;
+                }
+
+                const queue = workerPayload.get(worker);
+                const req: FrameRequest = { id, frame, width, height };
+                if (queue) {
+                    queue.push(req);
+                } else {
+                    workerPayload.set(worker, [req]);
+                }
+                bytes += frameBytes;
+                count++;
+            }
+        }
+    });
+
+    if (!workerPayload.size) {
+        // Все кадры видимых плееров уже в кэше
+        precacheScheduled = false;
+        return;
+    }
+
+    const promises: Promise<void>[] = [];
+    workerPayload.forEach((frames, worker) => {
+        promises.push(worker.send('render', { frames }, renderTimeout).then(resp => {
+            worker.busyTime += getWorkerTime(resp);
+            resp.frames.forEach(payload => {
+                const image = toFrameImage(payload);
+                const cached = registry.has(payload.id) && getConfig().cacheFrames
+                    && setCachedFrame(payload.id, payload.frame, image);
+                if (!cached && isImageBitmap(image)) {
+                    image.close();
+                }
+            });
+        }, () => {
+            // Не удалось отрисовать кадры заранее: они отрисуются
+            // во время воспроизведения
+        }));
+    });
+
+    Promise.all(promises).then(() => {
+        precacheScheduled = false;
+        schedulePrecache();
+    });
+}
+
+/**
+ * Снимок кадра для указанного плеера
+ */
+function snapshotPlayer(player: Player, frame: number | undefined, options: SnapshotOptions): Promise<ImageBitmap | Blob> {
+    if (player.disposed) {
+        return Promise.reject(new PlayerError('disposed', 'Player is disposed'));
+    }
+
+    return player.ready.then(() => {
+        const item = registry.get(player.id);
+        if (player.disposed || !item?.worker) {
+            throw new PlayerError('disposed', 'Player is disposed');
+        }
+
+        const req: FrameRequest = {
+            id: item.id,
+            frame: Math.max(0, Math.min(Math.floor(frame ?? player.frame), player.lastFrame)),
+            width: Math.round(options.width || player.width),
+            height: Math.round(options.height || player.height)
+        };
+        return renderSnapshot(item.worker, req, options.type);
+    });
+}
+
+/**
+ * Отрисовывает кадр в воркере и приводит его к указанному формату снимка
+ */
+function renderSnapshot(worker: WorkerInstance, req: FrameRequest, type?: SnapshotType): Promise<ImageBitmap | Blob> {
+    return worker.send('render', { frames: [req] }, getConfig().renderTimeout).then(resp => {
+        const [payload] = resp.frames;
+        if (!payload) {
+            const error = resp.errors?.[0]?.error;
+            throw error
+                ? new WorkerError(error.code, error.message)
+                : new WorkerError('ERENDER', 'Unable to render frame');
+        }
+
+        return toSnapshot(toFrameImage(payload), type);
+    });
+}
+
+/**
+ * Вернёт закэшированный кадр, если его можно отрисовать для указанного запроса
+ */
+function getCachedFrame(req: FrameRequest): FrameImage | void {
+    if (getConfig().cacheFrames) {
+        return frameCache.get(req.id, req.frame, req.width, req.height);
+    }
+}
+
+/**
+ * Записывает отрисованный кадр в кэш. Вернёт `false`, если кадр не попал
+ * в кэш: тогда картинку нужно закрыть самостоятельно
+ */
+function setCachedFrame(id: ID, frame: number, image: FrameImage): boolean {
+    const item = registry.get(id);
+    if (item && item.totalFrames !== -1) {
+        frameCache.set(id, frame, image, getConfig().frameCacheLimit);
+        return true;
+    }
+
+    return false;
+}
+
+function toFrameRequest(player: Player, progress: number): FrameRequest {
+    // В аругументе progress указана позиция на таймлайне плеера в кадрах —
+    // посчитаем из неё кадр анимации
+    return createFrameRequest(player, getFrameAt(player, progress));
+}
+
+function createFrameRequest(player: Player, frame: number): FrameRequest {
     return {
         id: player.id,
         width: player.width,
@@ -378,47 +1377,84 @@ function restartLoop(rendered?: boolean) {
 /**
  * Отрисовка кадра из ответа от воркера.
  * Вернёт время, затраченное на отрисовку
+ * @param animStats Статистика анимации в текущем тике, куда нужно записать
+ * время отрисовки в плеерах
  */
-function renderFrameResponse(payload: FrameResponse): number {
+function renderFrameResponse(payload: FrameResponse, animStats?: AnimationStats): number {
     const start = performance.now();
     const { id } = payload;
+    const image = toFrameImage(payload);
     if (registry.has(id)) {
-        const clampedBuffer = new Uint8ClampedArray(payload.data);
-        const image = new ImageData(clampedBuffer, payload.width, payload.height);
-
-        if (getConfig().cacheFrames) {
-            setCachedFrame(id, payload.frame, image);
+        // Запись кадра может вытеснить из кэша другие кадры: закрываем
+        // их картинки только после отрисовки
+        let cached = false;
+        frameCache.lock();
+        try {
+            cached = getConfig().cacheFrames && setCachedFrame(id, payload.frame, image);
+            renderGroup(id, payload.frame, image, animStats);
+        } finally {
+            frameCache.unlock();
         }
 
-        renderGroup(id, payload.frame, image);
+        if (!cached && isImageBitmap(image)) {
+            image.close();
+        }
+    } else if (isImageBitmap(image)) {
+        image.close();
     }
 
     return performance.now() - start;
 }
 
+/**
+ * Приводит ответ воркера к кадру, который можно нарисовать в canvas
+ */
+function toFrameImage(payload: FrameResponse): FrameImage {
+    const { data } = payload;
+    if (data instanceof ArrayBuffer) {
+        const clampedBuffer = new Uint8ClampedArray(data);
+        return new ImageData(clampedBuffer, payload.width, payload.height);
+    }
+
+    return data;
+}
+
 /**
  * Отрисовка кадра для указанной группы. Вернёт время, затраченное на отрисовку
+ * @param animStats Статистика анимации, куда нужно записать время отрисовки
+ * в плеерах
  */
-function renderGroup(id: ID, frame: number, image: ImageData): number {
+function renderGroup(id: ID, frame: number, image: FrameImage, animStats?: AnimationStats): number {
     const start = performance.now();
     const item = registry.get(id);
     let prevRendered: HTMLCanvasElement | undefined;
 
     if (item) {
         const { players } = item;
+        const isSeek = item.seek === frame;
         // const lastPlayer = players.length - 1;
         for (let i = 0; i < players.length; i++) {
             const player = players[i];
-            if (isPlaying(player) && shouldRenderPlayer(player, frame)) {
-                renderFrame(player, frame, image, prevRendered);
+            if ((isSeek || isPlaying(player)) && shouldRenderPlayer(player, frame)) {
+                const paintStart = performance.now();
+                paintFrame(player, frame, image, prevRendered);
                 prevRendered = player.canvas;
 
+                if (animStats) {
+                    animStats.paintTime += performance.now() - paintStart;
+                    animStats.paints++;
+                }
+
                 // const { width, height } = player;
                 // if (i !== lastPlayer && (image.width !== width || image.height !== height)) {
                 //     image = player.ctx.getImageData(0, 0, width, height);
                 // }
             }
         }
+
+        if (isSeek) {
+            item.seek = undefined;
+        }
     }
 
     return performance.now() - start;
@@ -427,25 +1463,33 @@ function renderGroup(id: ID, frame: number, image: ImageData): number {
 /**
  * Отрисовка кадра в указанном плеере
  */
-function renderFrame(player: Player, frame: number, image: ImageData, prev?: HTMLCanvasElement) {
+function paintFrame(player: Player, frame: number, image: FrameImage, prev?: HTMLCanvasElement) {
     const isInitial = player.frame === -1;
     const { ctx, canvas, fill } = player;
     const { width, height } = canvas;
     const shouldRender = maxPlayerRender === -1 || maxPlayerRender > 0 || isInitial;
 
     if (shouldRender) {
-        if (image.width === width && image.height === height && !fill) {
+        if (!isImageBitmap(image) && image.width === width && image.height === height && !fill) {
             // putImage — самый быстрый вариант, будем использовать его, если размер подходит
             ctx.putImageData(image, 0, 0);
         } else {
-            if (!prev) {
+            // ImageBitmap можно сразу рисовать в любом размере, а для ImageData
+            // нужен промежуточный canvas
+            let source: CanvasImageSource | undefined = prev;
+            if (isImageBitmap(image)) {
+                source = image;
+            } else if (!source) {
                 // Нет предыдущего отрисованный canvas, который можно отмасштабировать
                 // до нужного размера: используем буфферный
+                if (!bufCanvas) {
+                    bufCanvas = document.createElement('canvas');
+                }
                 bufCanvas.width = image.width
                 bufCanvas.height = image.height;
                 const bufCtx = bufCanvas.getContext('2d')!;
                 bufCtx.putImageData(image, 0, 0);
-                prev = bufCanvas;
+                source = bufCanvas;
             }
 
             if (fill) {
@@ -453,11 +1497,11 @@ function renderFrame(player: Player, frame: number, image: ImageData, prev?: HTM
                 ctx.fillStyle = fill;
                 ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
                 ctx.globalCompositeOperation = 'destination-in';
-                ctx.drawImage(prev, 0, 0, width, height);
+                ctx.drawImage(source, 0, 0, width, height);
                 ctx.restore();
             } else {
                 ctx.clearRect(0, 0, width, height);
-                ctx.drawImage(prev, 0, 0, width, height);
+                ctx.drawImage(source, 0, 0, width, height);
             }
         }
 
@@ -467,11 +1511,12 @@ function renderFrame(player: Player, frame: number, image: ImageData, prev?: HTM
     }
 
     player.frame = frame;
+    stalePlayers.delete(player);
     if (isInitial) {
         player.emit('rendered');
     }
 
-    if (isFinished(player)) {
+    if (!player.paused && isFinished(player) && frame === getEndFrame(player)) {
         player.pause();
         player.emit('end');
     }
@@ -494,16 +1539,128 @@ function shouldRenderFrame(id: ID, frame: number): boolean {
  * Вернёт `true` если указанный кадр нужно нарисорвать в плеере
  */
 function shouldRenderPlayer(player: Player, frame: number): boolean {
-    return player.totalFrames !== -1 && player.frame !== frame;
+    return !player.offscreen && player.totalFrames !== -1
+        && (player.frame !== frame || stalePlayers.has(player));
 }
 
 function reportStats(data: RenderStats) {
     const { stats } = getConfig();
+    avgFrameTime = avgFrameTime * 0.8 + data.frameTime * 0.2;
+    const cacheStats = frameCache.flushStats();
+    data.cacheHits = cacheStats.hits;
+    data.cacheMisses = cacheStats.misses;
+    data.cacheBytes = cacheStats.bytes;
+
+    // Копим статистику анимаций для `getStats()`
+    Object.keys(data.animations).forEach(id => {
+        if (registry.has(id)) {
+            const tick = data.animations[id];
+            const total = animationStats.get(id);
+            if (total) {
+                addAnimationStats(total, tick);
+            } else {
+                animationStats.set(id, { ...tick });
+            }
+        }
+    });
+
     if (stats) {
         stats(data);
     }
 }
 
-function isFinished(player: Player) {
-    return !player.loop && player.frame === player.lastFrame;
+/**
+ * Вернёт статистику указанной анимации в текущем тике отрисовки
+ */
+function getTickStats(stats: RenderStats, item: PlayerRegistryItem): AnimationStats {
+    let animStats = stats.animations[item.id];
+    if (!animStats) {
+        animStats = stats.animations[item.id] = {
+            players: item.players.length,
+            frames: 0,
+            renderTime: 0,
+            copyTime: 0,
+            transferTime: 0,
+            paintTime: 0,
+            paints: 0,
+            droppedFrames: 0,
+            cacheHits: 0,
+            cacheMisses: 0
+        };
+    }
+
+    return animStats;
+}
+
+/**
+ * Добавляет статистику анимации за тик к накопленной
+ */
+function addAnimationStats(total: AnimationStats, tick: AnimationStats) {
+    total.players = tick.players;
+    total.frames += tick.frames;
+    total.renderTime += tick.renderTime;
+    total.copyTime += tick.copyTime;
+    total.transferTime += tick.transferTime;
+    total.paintTime += tick.paintTime;
+    total.paints += tick.paints;
+    total.droppedFrames += tick.droppedFrames;
+    total.cacheHits += tick.cacheHits;
+    total.cacheMisses += tick.cacheMisses;
+}
+
+/**
+ * Записывает в статистику тика данные из ответа воркера: время отрисовки
+ * и копирования кадров в воркере и время их передачи
+ * @param roundtrip Время от отправки запроса до получения ответа
+ */
+function trackWorkerResponse(stats: RenderStats, worker: WorkerInstance, resp: RenderResponse, roundtrip: number) {
+    const busy = getWorkerTime(resp);
+    worker.busyTime += busy;
+
+    // Всё, что не ушло на работу воркера, считаем временем передачи кадров
+    // и ожидания в очереди, поровну для каждого кадра
+    const transferTime = resp.frames.length ? Math.max(0, roundtrip - busy) / resp.frames.length : 0;
+    resp.frames.forEach(frame => {
+        const animStats = stats.animations[frame.id];
+        if (animStats) {
+            animStats.frames++;
+            animStats.renderTime += frame.renderTime || 0;
+            animStats.copyTime += frame.copyTime || 0;
+            animStats.transferTime += transferTime;
+        }
+    });
+
+    stats.workers.push(getWorkerStats(worker, busy, stats.tickDelta));
+}
+
+/**
+ * Вернёт время, которое воркер потратил на отрисовку и копирование кадров
+ */
+function getWorkerTime(resp: RenderResponse): number {
+    return resp.frames.reduce((time, frame) => time + (frame.renderTime || 0) + (frame.copyTime || 0), 0);
+}
+
+/**
+ * Вернёт статистику воркера
+ * @param busy Время работы воркера за указанный период
+ * @param period Период, за который считается загрузка воркера
+ */
+function getWorkerStats(worker: WorkerInstance, busy: number, period: number): WorkerStats {
+    return {
+        id: worker.id,
+        players: worker.refs,
+        queue: worker.queue,
+        renderTime: busy,
+        utilization: period > 0 ? Math.min(1, busy / period) : 0
+    };
+}
+
+/**
+ * Вернёт `true`, если таймлайн группы указанного плеера дошёл до конца.
+ * Для зацикленных плееров всегда вернёт `false`
+ */
+function isFinished(player: Player): boolean {
+    const item = registry.get(player.id);
+    return !player.loop && player.mounted && !!item
+        && Math.floor(item.progress) >= getTimelineLength(player);
 }
@@ -0,0 +1,25 @@
+/**
+ * Типы модулей Node.js, которые используются в точке входа `/node`.
+ * Описываем только то, что используем, чтобы не тянуть `@types/node`
+ * в браузерную сборку
+ */
+declare module 'node:worker_threads' {
+    type NodeWorkerEvent = 'message' | 'error' | 'exit';
+
+    interface NodeMessagePort {
+        on(event: 'message', listener: (value: any) => void): this;
+        postMessage(value: any, transferList?: readonly Transferable[]): void;
+    }
+
+    export const parentPort: NodeMessagePort | null;
+
+    export class Worker {
+        constructor(filename: string | URL);
+        on(event: NodeWorkerEvent, listener: (...args: any[]) => void): this;
+        off(event: NodeWorkerEvent, listener: (...args: any[]) => void): this;
+        postMessage(value: any, transferList?: readonly Transferable[]): void;
+        terminate(): Promise<number>;
+        ref(): void;
+        unref(): void;
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * Точка входа воркера RLottie для Node.js (`worker_threads`)
+ */
+import './lib/node-port';
+import './worker';
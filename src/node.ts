@@ -0,0 +1,194 @@
+/**
+ * Отрисовка Lottie-анимаций в Node.js без DOM, например, для превью
+ * стикеров на сервере. Используется тот же воркер RLottie, что и в браузере,
+ * но запускается он через `worker_threads`
+ */
+import { Worker as NodeWorker } from 'node:worker_threads';
+import type { FrameRequest, FrameResponse, MovieSource, RenderedFrame, RenderFramesOptions } from './types';
+import { WorkerInstance } from './lib/worker-pool';
+import { getMovie, isMovieUrl } from './lib/utils';
+import { inlineAssets } from './lib/assets';
+import { applyText } from './lib/text';
+import { PlayerError, WorkerError, toPlayerError } from './lib/errors';
+import { encodePng } from './lib/png';
+
+export { PlayerError, WorkerError } from './lib/errors';
+export type { RenderFramesOptions, RenderedFrame, MovieSource, ColorMap, TextMap, ImageAsset } from './types';
+
+type Listener = (evt: any) => void;
+
+/**
+ * Файл воркера рядом со сборкой. Путь вынесен в переменную, чтобы сборщик
+ * не пытался обработать его как ассет
+ */
+const workerFile = './node-worker.js';
+
+/** Общий воркер для всех запросов на отрисовку */
+let workerLoader: Promise<WorkerInstance> | undefined;
+let nodeWorker: NodeWorker | undefined;
+
+/** Количество запросов, которые сейчас используют воркер */
+let refs = 0;
+
+/** Счётчик для ID временных экземпляров анимаций */
+let renderId = 0;
+
+/**
+ * Отрисовывает указанные кадры анимации. Анимацию можно передать так же,
+ * как в `createPlayer()`, но файлы с диска нужно прочитать самостоятельно
+ * и передать их содержимое
+ */
+export function renderFrames(movie: MovieSource, options: RenderFramesOptions): Promise<RenderedFrame[]> {
+    const id = `__node${renderId++}`;
+    const { text } = options;
+    const width = Math.round(options.width);
+    const height = Math.round(options.height);
+    const workerReq = allocNodeWorker();
+    const dataReq = getMovie(movie, options.animationId)
+        .then(({ data }) => inlineAssets(data, {
+            baseUrl: options.assetBaseUrl || (isMovieUrl(movie) ? movie as string : undefined),
+            resolveAsset: options.resolveAsset
+        }))
+        .then(data => text ? applyText(data, text) : data);
+
+    return Promise.all([workerReq, dataReq]).then(([worker, data]) => {
+        return worker.send('create', { id, data, colors: options.colors }).then(resp => {
+            const frames: FrameRequest[] = getFrameList(options.frames, resp.totalFrames)
+                .map(frame => ({ id, frame, width, height }));
+            const result = worker.send('render', { frames });
+            // Экземпляр анимации больше не нужен: удаляем его после отрисовки
+            worker.send('dispose', { id }).catch(() => {});
+            return result;
+        }, err => {
+            throw toPlayerError(err, 'worker-init');
+        });
+    }).then(resp => {
+        releaseNodeWorker();
+        const error = resp.errors?.[0]?.error;
+        if (error) {
+            throw new WorkerError(error.code, error.message);
+        }
+
+        return Promise.all(resp.frames.map(frame => toRenderedFrame(frame, options.format)));
+    }, err => {
+        releaseNodeWorker();
+        throw err;
+    });
+}
+
+/**
+ * Вернёт список кадров для отрисовки
+ */
+function getFrameList(frames: RenderFramesOptions['frames'] = 1, totalFrames: number): number[] {
+    if (Array.isArray(frames)) {
+        return frames
+            .map(frame => Math.floor(frame))
+            .filter(frame => frame >= 0 && frame < totalFrames);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < Math.min(frames, totalFrames); i++) {
+        result.push(i);
+    }
+    return result;
+}
+
+function toRenderedFrame(payload: FrameResponse, format: RenderFramesOptions['format'] = 'rgba'): Promise<RenderedFrame> {
+    const { frame, width, height } = payload;
+    // В Node.js нет `createImageBitmap`, поэтому воркер всегда передаёт
+    // пиксельные данные
+    const data = new Uint8Array(payload.data as ArrayBuffer);
+    return format === 'png'
+        ? encodePng(data, width, height).then(data => ({ frame, width, height, data }))
+        : Promise.resolve({ frame, width, height, data });
+}
+
+/**
+ * Выделяет общий воркер для отрисовки. Пока воркер используется, он не даёт
+ * процессу завершиться
+ */
+function allocNodeWorker(): Promise<WorkerInstance> {
+    if (!workerLoader) {
+        const instance = new WorkerInstance();
+        const worker = new NodeWorker(new URL(workerFile, import.meta.url));
+
+        const cleanUp = () => {
+            worker.off('message', onMessage);
+            worker.off('error', onError);
+        };
+
+        const onMessage = (data: { type?: string }) => {
+            if (data?.type === 'init') {
+                cleanUp();
+                instance.attach(toWebWorker(worker));
+            }
+        };
+
+        const onError = (err: Error) => {
+            cleanUp();
+            resetNodeWorker(worker);
+            worker.terminate();
+            instance.fail(new PlayerError('worker-init', err.message));
+        };
+
+        worker.on('message', onMessage);
+        worker.on('error', onError);
+        instance.onCrash(() => resetNodeWorker(worker));
+
+        nodeWorker = worker;
+        workerLoader = instance.promise;
+    }
+
+    refs++;
+    nodeWorker?.ref();
+    return workerLoader;
+}
+
+function releaseNodeWorker() {
+    refs = Math.max(0, refs - 1);
+    if (!refs) {
+        // Не удерживаем процесс, пока воркер простаивает
+        nodeWorker?.unref();
+    }
+}
+
+/**
+ * Сбрасывает общий воркер после ошибки: следующий запрос запустит новый
+ */
+function resetNodeWorker(worker: NodeWorker) {
+    if (nodeWorker === worker) {
+        nodeWorker = workerLoader = undefined;
+    }
+}
+
+/**
+ * Приводит воркер `worker_threads` к интерфейсу веб-воркера, с которым
+ * работает `WorkerInstance`
+ */
+function toWebWorker(worker: NodeWorker): Worker {
+    const handlers = new Map<Listener, Array<[string, Listener]>>();
+
+    return {
+        postMessage(message: unknown, transfer?: Transferable[]) {
+            worker.postMessage(message, transfer);
+        },
+        terminate() {
+            worker.terminate();
+        },
+        addEventListener(type: string, listener: Listener) {
+            const list: Array<[string, Listener]> = type === 'message'
+                ? [['message', data => listener({ data })]]
+                : [
+                    ['error', (error: Error) => listener({ error, message: error.message })],
+                    ['exit', (code: number) => listener({ message: `Worker stopped with exit code ${code}` })]
+                ];
+
+            handlers.set(listener, list);
+            list.forEach(([event, handler]) => worker.on(event as 'message', handler));
+        },
+        removeEventListener(_type: string, listener: Listener) {
+            handlers.get(listener)?.forEach(([event, handler]) => worker.off(event as 'message', handler));
+            handlers.delete(listener);
+        }
+    } as unknown as Worker;
+}
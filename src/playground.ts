@@ -5,6 +5,7 @@ import emojiWink from './assets/emoji_wink.json?inline';
 import heart from './assets/heart.json?url';
 import loader from './assets/gradient_sleepy_loader.json?inline';
 import textTyping from './assets/text.json?inline';
+import externalImage from './assets/external.json?inline';
 
 const fireMovie = 'https://st.mycdn.me/static/messages/2022-11-30lottie/e/10.json';
 
@@ -106,15 +107,14 @@ function createControls() {
         height += 20;
     });
 
-    // XXX загрузка внешних картинок пока не поддерживается
-    // createButton('External image', () => {
-    //     createMovie({
-    //         movie: createExternalAnimation('https://st.mycdn.me/static/emoji/14-0-0/32/1f648@2x.png'),
-    //         loop: true,
-    //         width: 100,
-    //         height: 100
-    //     });
-    // });
+    createButton('External image', () => {
+        createMovie({
+            movie: createExternalAnimation('https://st.mycdn.me/static/emoji/14-0-0/32/1f648@2x.png'),
+            loop: true,
+            width: 100,
+            height: 100
+        });
+    });
 
     createButton('Emoji wink', createMovieHandler(emojiWink));
     createButton('Heart', createMovieHandler(new URL(heart, location.href).href));
@@ -134,6 +134,16 @@ function createControls() {
     createButton('Log internals', () => console.log(getInternals()));
 }
 
+/**
+ * Создаёт анимацию, которая показывает картинку по указанному URL
+ */
+function createExternalAnimation(url: string): string {
+    const movie = JSON.parse(externalImage);
+    movie.assets[0].u = '';
+    movie.assets[0].p = url;
+    return JSON.stringify(movie);
+}
+
 function createMovieHandler(movie: string | object, id?: string) {
     return () => createMovie({
         id,
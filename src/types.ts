@@ -1,5 +1,100 @@
 export type ID = string | number;
 
+/**
+ * Режим воспроизведения анимации:
+ * * `normal` — анимация воспроизводится в одну сторону;
+ * * `bounce` — анимация воспроизводится вперёд, затем назад (пинг-понг).
+ */
+export type PlaybackMode = 'normal' | 'bounce';
+
+/** Направление воспроизведения: `1` — вперёд, `-1` — назад */
+export type PlaybackDirection = 1 | -1;
+
+/**
+ * Тип ошибки плеера:
+ * * `network` — не удалось загрузить анимацию;
+ * * `parse` — анимация содержит некорректные данные;
+ * * `worker-init` — не удалось запустить воркер или создать в нём анимацию;
+ * * `worker-crash` — воркер упал во время работы;
+ * * `disposed` — плеер или анимация были удалены до завершения операции.
+ */
+export type PlayerErrorType = 'network' | 'parse' | 'worker-init' | 'worker-crash' | 'disposed';
+
+/**
+ * Код ошибки, возвращаемой из воркера:
+ * * `EINVALID_MOVIE` — RLottie не смог загрузить анимацию;
+ * * `ERENDER` — не удалось отрисовать кадр;
+ * * `ETIMEOUT` — воркер не ответил за отведённое время;
+ * * `ETERMINATE` — воркер был остановлен до ответа на запрос;
+ * * `EUNKNOWN` — любая другая ошибка.
+ */
+export type WorkerErrorCode = 'EINVALID_MOVIE' | 'ERENDER' | 'ETIMEOUT' | 'ETERMINATE' | 'EUNKNOWN';
+
+/**
+ * Данные об ошибке, которые передаются из воркера
+ */
+export interface WorkerErrorPayload {
+    code: WorkerErrorCode;
+    message: string;
+}
+
+/**
+ * Сегмент анимации для воспроизведения: название маркера из Lottie-файла
+ * либо диапазон кадров `[start, end]`
+ */
+export type Segment = string | [start: number, end: number];
+
+/**
+ * Статичный кадр анимации: номер кадра, первый (`first`) или последний (`last`)
+ * кадр текущего сегмента либо название маркера
+ */
+export type PosterFrame = number | 'first' | 'last' | (string & {});
+
+/**
+ * Перекраска анимации. Ключ — путь к свойству из названий слоёв и фигур
+ * (например, `Heart.Fill 1.Color`) либо исходный цвет в формате `#rrggbb`,
+ * значение — новый цвет в формате `#rrggbb`
+ */
+export type ColorMap = Record<string, string>;
+
+/**
+ * Подстановка строк в текстовые слои анимации. Ключ — название текстового
+ * слоя либо путь к нему через названия слоёв-композиций, значение — новый текст
+ */
+export type TextMap = Record<string, string>;
+
+/**
+ * Картинка из списка `assets` Lottie-анимации
+ */
+export interface ImageAsset {
+    id: string;
+    w: number;
+    h: number;
+
+    /** Путь к папке с картинкой */
+    u: string;
+
+    /** Имя файла картинки, её URL или data URI */
+    p: string;
+
+    /** Картинка встроена в анимацию (`1`) */
+    e?: number;
+}
+
+/**
+ * Именованный маркер из Lottie-анимации
+ */
+export interface Marker {
+    /** Название маркера (поле `cm`) */
+    name: string;
+
+    /** Первый кадр маркера */
+    start: number;
+
+    /** Последний кадр маркера */
+    end: number;
+}
+
 export interface Config {
     /** Максимальное количество создаваемых воркеров */
     maxWorkers: number;
@@ -12,15 +107,71 @@ export interface Config {
      * на CPU, так как каждый кадр анимации отрисуется только один раз и при
      * циклическом воспроизведении будет брать кадр из кэша. Однако это
      * значительно потребление памяти. Каждый кадр будет занимать
-     * `width × height × (dpr × 2) × 4` байт
+     * `width × height × (dpr × 2) × 4` байт, поэтому общий размер кэша
+     * ограничен параметром `frameCacheLimit`
      */
     cacheFrames: boolean;
 
+    /**
+     * Максимальный размер кэша кадров для всех анимаций, в байтах. При превышении
+     * удаляются кадры, которые дольше всего не использовались. Кадры
+     * воспроизводимых анимаций удаляются в последнюю очередь
+     */
+    frameCacheLimit: number;
+
+    /**
+     * Заранее отрисовывать кадры в кэш, когда браузер простаивает:
+     * * `idle` — кадры видимых плееров, которых ещё нет в кэше, отрисовываются
+     *   небольшими порциями через `requestIdleCallback`, так что уже первый
+     *   цикл анимации может браться из кэша. Если основной цикл отрисовки
+     *   не успевает, предварительная отрисовка откладывается;
+     * * `off` — кадры попадают в кэш только во время воспроизведения.
+     * Работает, только если включён `cacheFrames`
+     */
+    precache: 'idle' | 'off';
+
+    /**
+     * Максимальный размер кэша загруженных анимаций, в байтах. Анимации
+     * с одинаковым URL или содержимым загружаются только один раз, а
+     * при превышении лимита из кэша удаляются анимации, которые дольше
+     * всего не использовались
+     */
+    movieCacheLimit: number;
+
     /**
      * Максимальное количество плееров, которые можно отрисовать за один кадр
      */
     maxRender?: number;
 
+    /**
+     * Время в миллисекундах, за которое воркер должен отрисовать кадры.
+     * Если воркер не успел, он считается зависшим и будет перезапущен
+     */
+    renderTimeout: number;
+
+    /**
+     * Время в миллисекундах, через которое анимация, загруженная через
+     * `preload()`, будет удалена, если для неё так и не создали плеер
+     */
+    preloadTimeout: number;
+
+    /**
+     * Автоматически приостанавливать отрисовку плееров, которые не попадают
+     * во вьюпорт или находятся на скрытой странице. Такие плееры не ставятся
+     * на паузу и продолжат воспроизведение, как только станут видимыми.
+     * Применяется к плеерам, созданным после включения опции
+     */
+    autoPause: boolean;
+
+    /**
+     * Учитывать системную настройку уменьшения движения
+     * (`prefers-reduced-motion: reduce`):
+     * * `respect` — если настройка включена, плееры показывают статичный кадр
+     *   `posterFrame` и воспроизводятся только после явного вызова `play()`;
+     * * `ignore` — анимации воспроизводятся как обычно.
+     */
+    reducedMotion: 'respect' | 'ignore';
+
     /** Путь к воркеру или функция, которая вернёт путь к воркеру */
     workerUrl: string | (() => string | Promise<string>);
 
@@ -30,12 +181,32 @@ export interface Config {
     stats?: (stats: RenderStats) => void;
 }
 
+/**
+ * Источник Lottie-анимации: URL (начинается с протокола), JSON-файл в виде
+ * строки или объекта либо бинарные данные файла. Бинарные данные и файлы
+ * по URL могут быть сжаты gzip (стикеры в формате .tgs)
+ */
+export type MovieSource = string | object | ArrayBuffer | ArrayBufferView | Blob;
+
+/**
+ * Постер плеера: URL картинки, `ImageBitmap` или `firstFrame` — первый кадр
+ * анимации, сохранённый в постоянном кэше браузера при прошлом показе
+ */
+export type PosterImage = 'firstFrame' | (string & {}) | ImageBitmap;
+
+/**
+ * Отрисовка заглушки в холсте плеера, пока загружается анимация.
+ * Размер указан в пикселях холста
+ */
+export type PlaceholderRenderer = (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+
 export interface PlayerOptions {
     /**
-     * Lottie-анимация. Это может быть URL (начинается с протокола) либо сам
-     * JSON-файл в виде строки или объекта
+     * Lottie-анимация. Это может быть URL (начинается с протокола), сам
+     * JSON-файл в виде строки или объекта либо бинарные данные файла
+     * (`ArrayBuffer`, `Uint8Array`, `Blob`), в том числе сжатые gzip (.tgs)
      */
-    movie: string | object;
+    movie: MovieSource;
 
     /** Указатель на элемент <canvas>, где нужно рисовать анимацию */
     canvas: HTMLCanvasElement;
@@ -55,12 +226,95 @@ export interface PlayerOptions {
     /** Скорость воспроизведения ролика, кадров в секунду. По умолчанию 60 */
     fps?: number;
 
+    /**
+     * Множитель скорости воспроизведения, от `0.25` до `4`. По умолчанию `1`.
+     * Можно менять во время воспроизведения через `player.playbackRate`
+     */
+    playbackRate?: number;
+
+    /** Направление воспроизведения. По умолчанию `1` (вперёд) */
+    direction?: PlaybackDirection;
+
+    /** Режим воспроизведения. По умолчанию `normal` */
+    mode?: PlaybackMode;
+
+    /**
+     * Сегмент анимации, который нужно воспроизводить: название маркера
+     * или диапазон кадров. По умолчанию воспроизводится вся анимация
+     */
+    segment?: Segment;
+
+    /**
+     * Кадр, который показывается вместо воспроизведения, если пользователь
+     * попросил уменьшить движение: номер кадра, `first`, `last` или название
+     * маркера. По умолчанию `first`
+     */
+    posterFrame?: PosterFrame;
+
+    /**
+     * Картинка, которая показывается в холсте сразу после создания плеера
+     * и заменяется первым отрисованным кадром анимации. Для `firstFrame`
+     * первый кадр сохраняется в Cache Storage после первого показа, поэтому
+     * у плеера должен быть указан `id`. Не поддерживается в режиме `offscreen`
+     */
+    poster?: PosterImage;
+
+    /**
+     * Отрисовка заглушки (например, скелетона) в холсте плеера, пока
+     * загружается анимация. Не поддерживается в режиме `offscreen`
+     */
+    placeholder?: PlaceholderRenderer;
+
+    /**
+     * Перекраска анимации: цвета заливок, обводок и градиентов заменяются
+     * прямо в данных анимации. Плееры с разными цветами используют разные
+     * экземпляры анимации, даже если у них одинаковый `id`
+     */
+    colors?: ColorMap;
+
+    /**
+     * Подстановка строк в текстовые слои анимации, например, имени
+     * пользователя или значения счётчика. Плееры с разными подстановками
+     * используют разные экземпляры анимации, даже если у них одинаковый `id`
+     */
+    text?: TextMap;
+
+    /**
+     * ID анимации из манифеста, если в `movie` указан архив dotLottie (.lottie)
+     * с несколькими анимациями. По умолчанию берётся активная либо первая
+     * анимация из манифеста
+     */
+    animationId?: string;
+
+    /**
+     * Базовый URL для внешних картинок анимации с относительными путями.
+     * По умолчанию — URL анимации, если она загружается по URL, иначе
+     * адрес страницы
+     */
+    assetBaseUrl?: string;
+
+    /**
+     * Загрузка внешней картинки анимации. Должна вернуть данные картинки
+     * или её URL (в том числе data URI). Если не указано, картинка
+     * загружается по пути из анимации
+     */
+    resolveAsset?: (asset: ImageAsset) => Promise<Blob | string>;
+
     /**
      * Цвет заливки. Если указан, каждый кадр будет отрисовываться в режиме маски
      * указанным цветом, то есть будет нарисована одноцветная форма
      */
     fill?: string;
 
+    /**
+     * Рисовать анимацию прямо в воркере: canvas передаётся в воркер через
+     * `transferControlToOffscreen()`, и воркер сам отвечает за цикл отрисовки.
+     * Подходит для больших анимаций в единственном экземпляре, так как кадры
+     * не нужно передавать в основной поток. Если браузер не поддерживает
+     * OffscreenCanvas, плеер будет работать в обычном режиме
+     */
+    offscreen?: boolean;
+
     /**
      * Если указан, все плееры, созданные с таким же ID, будут использовать один
      * и тот же экземпляр анимации и будут отрисовывать один и тот же кадр.
@@ -73,6 +327,98 @@ export interface PlayerOptions {
     id?: ID;
 }
 
+/**
+ * Параметры предварительной загрузки анимации через `preload()`
+ */
+export interface PreloadOptions extends Pick<PlayerOptions, 'colors' | 'text' | 'animationId' | 'assetBaseUrl' | 'resolveAsset'> {
+    /**
+     * ID анимации: плеер, созданный с этим `id` (и теми же `colors`, `text`
+     * и `animationId`), будет использовать загруженную анимацию
+     */
+    id: ID;
+
+    /** Ширина кадра для предварительной отрисовки */
+    width?: number;
+
+    /** Высота кадра для предварительной отрисовки */
+    height?: number;
+
+    /** Плотность пикселей на экране. По умолчанию берётся devicePixelRatio */
+    dpr?: number;
+
+    /**
+     * Количество первых кадров анимации, которые нужно заранее отрисовать
+     * в кэш кадров. Работает, только если в конфиге включён `cacheFrames`
+     * и указаны `width` и `height`
+     */
+    frames?: number;
+}
+
+/**
+ * Формат снимка кадра: `ImageBitmap` либо картинка в формате PNG или WebP
+ */
+export type SnapshotType = 'bitmap' | 'image/png' | 'image/webp';
+
+/**
+ * Параметры снимка кадра анимации
+ */
+export interface SnapshotOptions {
+    /** Ширина снимка в пикселях. По умолчанию — ширина кадра плеера */
+    width?: number;
+
+    /** Высота снимка в пикселях. По умолчанию — высота кадра плеера */
+    height?: number;
+
+    /** Формат снимка. По умолчанию `bitmap` */
+    type?: SnapshotType;
+}
+
+/**
+ * Параметры отрисовки кадра анимации без плеера через `renderFrame()`
+ */
+export interface RenderFrameOptions extends SnapshotOptions, Pick<PlayerOptions, 'colors' | 'text' | 'animationId' | 'assetBaseUrl' | 'resolveAsset'> {
+    /** Ширина снимка в пикселях */
+    width: number;
+
+    /** Высота снимка в пикселях */
+    height: number;
+}
+
+/**
+ * Параметры отрисовки кадров в Node.js через `renderFrames()`
+ */
+export interface RenderFramesOptions extends Pick<PlayerOptions, 'colors' | 'text' | 'animationId' | 'assetBaseUrl' | 'resolveAsset'> {
+    /** Ширина кадра в пикселях */
+    width: number;
+
+    /** Высота кадра в пикселях */
+    height: number;
+
+    /**
+     * Кадры, которые нужно отрисовать: количество первых кадров анимации
+     * либо список номеров кадров. По умолчанию — только первый кадр
+     */
+    frames?: number | number[];
+
+    /**
+     * Формат результата: `rgba` — пиксельные данные кадра, `png` — картинка
+     * в формате PNG. По умолчанию `rgba`
+     */
+    format?: 'rgba' | 'png';
+}
+
+/**
+ * Кадр, отрисованный через `renderFrames()`
+ */
+export interface RenderedFrame {
+    frame: number;
+    width: number;
+    height: number;
+
+    /** Пиксельные данные RGBA либо содержимое PNG-файла */
+    data: Uint8Array;
+}
+
 export interface WorkerPlayerOptions {
     /**
      * Уникальный идентификатор плеера. Используется для того, чтобы не создавать
@@ -82,6 +428,9 @@ export interface WorkerPlayerOptions {
 
     /** Данные с анимацией (JSON) */
     data: string;
+
+    /** Перекраска анимации */
+    colors?: ColorMap;
 }
 
 /**
@@ -102,9 +451,26 @@ export interface FrameRequest {
     width: number;
     height: number;
     frame: number;
-    data: ArrayBuffer;
+
+    /**
+     * Пиксельные данные кадра. Если в воркере доступен `createImageBitmap`,
+     * кадр передаётся как `ImageBitmap`, который можно сразу нарисовать
+     * в canvas
+     */
+    data: ArrayBuffer | ImageBitmap;
+
+    /** Время отрисовки кадра в RLottie, в мс */
+    renderTime?: number;
+
+    /** Время копирования кадра из WASM-кучи и конвертации в `ImageBitmap`, в мс */
+    copyTime?: number;
 }
 
+/**
+ * Отрисованный кадр анимации, готовый для вывода в canvas
+ */
+export type FrameImage = ImageData | ImageBitmap;
+
 export interface CreateRequest {
     /**
      * Уникальный идентификатор плеера. Используется для того, чтобы не создавать
@@ -114,23 +480,37 @@ export interface CreateRequest {
 
     /** Данные с анимацией (JSON) */
     data: string;
+
+    /** Перекраска анимации */
+    colors?: ColorMap;
 }
 
 export interface CreateResponse {
     totalFrames: number;
     frameRate: number;
-}
 
-export interface CreateResponse {
-    totalFrames: number;
+    /** Маркеры анимации, по которым можно воспроизводить сегменты */
+    markers: Marker[];
 }
 
 export interface RenderRequest {
     frames: FrameRequest[]
 }
 
+/**
+ * Ошибка отрисовки кадра для конкретной анимации
+ */
+export interface FrameError {
+    id: ID;
+    frame: number;
+    error: WorkerErrorPayload;
+}
+
 export interface RenderResponse {
     frames: FrameResponse[];
+
+    /** Кадры, которые не удалось отрисовать */
+    errors?: FrameError[];
 }
 
 export interface DisposeRequest {
@@ -141,10 +521,80 @@ export interface DisposeResponse {
     ok: boolean;
 }
 
+/**
+ * Холст, переданный в воркер через `transferControlToOffscreen()`:
+ * часть интерфейса `OffscreenCanvas`, которая нужна плееру
+ */
+export interface OffscreenCanvasLike {
+    width: number;
+    height: number;
+    getContext(contextId: '2d'): CanvasRenderingContext2D | null;
+}
+
+/**
+ * Состояние плеера, который рисует анимацию прямо в воркере
+ */
+export interface CanvasState {
+    paused: boolean;
+    loop: boolean;
+    frameRate: number;
+    playbackRate: number;
+    direction: PlaybackDirection;
+    mode: PlaybackMode;
+    segmentStart: number;
+    segmentEnd: number;
+    width: number;
+    height: number;
+    fill?: string;
+}
+
+export interface AttachCanvasRequest {
+    /** Уникальный идентификатор холста */
+    canvasId: number;
+
+    /** ID анимации, созданной в воркере через `create` */
+    id: ID;
+
+    canvas: OffscreenCanvasLike;
+    state: CanvasState;
+}
+
+export interface UpdateCanvasRequest {
+    canvasId: number;
+    state?: Partial<CanvasState>;
+
+    /** Если указано, нужно перейти к указанному кадру */
+    seek?: number;
+}
+
+export interface DetachCanvasRequest {
+    canvasId: number;
+}
+
+export interface CanvasResponse {
+    ok: boolean;
+}
+
 export type RequestMap = {
     create: [CreateRequest, CreateResponse];
     render: [RenderRequest, RenderResponse];
     dispose: [DisposeRequest, DisposeResponse];
+    attachCanvas: [AttachCanvasRequest, CanvasResponse];
+    updateCanvas: [UpdateCanvasRequest, CanvasResponse];
+    detachCanvas: [DetachCanvasRequest, CanvasResponse];
+}
+
+/**
+ * Событие от холста, который рисуется в воркере
+ */
+export interface CanvasEvent {
+    type: 'canvas';
+    canvasId: number;
+    name: 'rendered' | 'frame' | 'end' | 'error';
+    frame: number;
+
+    /** Ошибка отрисовки холста, есть только у события `error` */
+    error?: WorkerErrorPayload;
 }
 
 export interface WorkerRequest<K extends keyof RequestMap> {
@@ -157,6 +607,9 @@ export interface WorkerMessage {
     seq: number;
     name: keyof RequestMap;
     payload: any;
+
+    /** Если указано, запрос завершился ошибкой */
+    error?: WorkerErrorPayload;
 }
 
 export interface RenderStats {
@@ -175,6 +628,113 @@ export interface RenderStats {
      * Разница по времени между запросами за отрисовкой
      */
     tickDelta: number;
+
+    /**
+     * Количество воркеров, перезапущенных после падения с момента
+     * предыдущего отчёта
+     */
+    workerRestart: number;
+
+    /**
+     * Количество кадров, взятых из кэша, с момента предыдущего отчёта
+     */
+    cacheHits: number;
+
+    /**
+     * Количество кадров, которых не оказалось в кэше, с момента
+     * предыдущего отчёта
+     */
+    cacheMisses: number;
+
+    /** Текущий размер кэша кадров, в байтах */
+    cacheBytes: number;
+
+    /** Статистика по каждой отрисованной анимации, ключ — `id` анимации */
+    animations: RenderStatsMap;
+
+    /** Статистика по воркерам, которые рисовали кадры */
+    workers: WorkerStats[];
 }
 
-export type RenderStatsMap = Record<ID, RenderStats>;
+/**
+ * Статистика отрисовки одной анимации. Все времена указаны в миллисекундах
+ */
+export interface AnimationStats {
+    /** Количество плееров анимации */
+    players: number;
+
+    /** Количество кадров, отрисованных в воркере */
+    frames: number;
+
+    /** Время отрисовки кадров в RLottie (WASM) внутри воркера */
+    renderTime: number;
+
+    /** Время копирования кадров из WASM-кучи и их конвертации в `ImageBitmap` */
+    copyTime: number;
+
+    /**
+     * Время передачи кадров между воркером и основным потоком, включая
+     * ожидание в очереди воркера
+     */
+    transferTime: number;
+
+    /** Время отрисовки кадров в холсты всех плееров анимации */
+    paintTime: number;
+
+    /**
+     * Количество отрисовок кадров в холсты плееров. Среднее время отрисовки
+     * в одном плеере — `paintTime / paints`
+     */
+    paints: number;
+
+    /**
+     * Количество кадров анимации, пропущенных из-за того, что отрисовка
+     * не успевала за воспроизведением
+     */
+    droppedFrames: number;
+
+    /** Количество кадров, взятых из кэша */
+    cacheHits: number;
+
+    /** Количество кадров, которых не оказалось в кэше */
+    cacheMisses: number;
+}
+
+export type RenderStatsMap = Record<ID, AnimationStats>;
+
+/**
+ * Статистика воркера
+ */
+export interface WorkerStats {
+    /** ID воркера */
+    id: number;
+
+    /** Количество плееров, использующих воркер */
+    players: number;
+
+    /** Количество запросов, ожидающих ответа от воркера */
+    queue: number;
+
+    /** Время, которое воркер потратил на отрисовку и копирование кадров, в мс */
+    renderTime: number;
+
+    /**
+     * Загрузка воркера от `0` до `1`: доля времени, которую воркер
+     * потратил на отрисовку кадров
+     */
+    utilization: number;
+}
+
+/**
+ * Накопленная статистика отрисовки, которую возвращает `getStats()`
+ */
+export interface StatsSnapshot {
+    /** Статистика по каждой анимации с момента её создания */
+    animations: RenderStatsMap;
+
+    /** Статистика по каждому воркеру с момента его запуска */
+    workers: WorkerStats[];
+
+    /** Текущий размер кэша кадров, в байтах */
+    cacheBytes: number;
+}
@@ -0,0 +1,30 @@
+/**
+ * Типы веб-API, которых нет в текущей версии TypeScript.
+ * Описываем только то, что используем
+ */
+
+type StreamCompressionFormat = 'gzip' | 'deflate' | 'deflate-raw';
+
+type CompressionStreamCtor = new (format: StreamCompressionFormat) => TransformStream<Uint8Array, Uint8Array>;
+
+type DecompressionStreamCtor = new (format: StreamCompressionFormat) => TransformStream<Uint8Array, Uint8Array>;
+
+/**
+ * Холст, из которого можно получить картинку: `OffscreenCanvas`
+ * или обычный `<canvas>`
+ */
+type BlobCanvas = import('./types').OffscreenCanvasLike & {
+    convertToBlob?(options: { type: string }): Promise<Blob>;
+    toBlob?(callback: BlobCallback, type: string): void;
+};
+
+type OffscreenCanvasCtor = new (width: number, height: number) => BlobCanvas;
+
+/**
+ * Глобальный объект с API, которые поддерживаются не во всех окружениях
+ */
+type WebGlobals = typeof globalThis & {
+    CompressionStream?: CompressionStreamCtor;
+    DecompressionStream?: DecompressionStreamCtor;
+    OffscreenCanvas?: OffscreenCanvasCtor;
+};
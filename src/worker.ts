@@ -1,43 +1,59 @@
 import lottieLoader, { type RlottieWasm } from './rlottie-wasm';
-import type { ID, WorkerPlayerOptions, FrameResponse, FrameRequest, WorkerMessage, RequestMap } from './types';
+import type { ID, WorkerPlayerOptions, FrameResponse, FrameRequest, WorkerMessage, RequestMap, Marker, FrameError, RenderResponse, AttachCanvasRequest, CanvasEvent } from './types';
+import { WorkerError, toWorkerErrorPayload } from './lib/errors';
+import { WorkerCanvas } from './lib/worker-canvas';
+import { applyColors } from './lib/colors';
 
 /** Все инстансы плееров */
 const instances = new Map<ID, WorkerPlayerInstace>();
+
+/** Холсты, в которые воркер рисует анимации сам */
+const canvases = new Map<number, WorkerCanvas>();
+let canvasLoopId = 0;
 let RLottie: typeof RlottieWasm;
 
+/**
+ * Можно ли передавать кадры в основной поток как `ImageBitmap`. В этом случае
+ * основному потоку не нужно вызывать `putImageData()` и копировать кадр
+ * через промежуточный canvas
+ */
+const supportsBitmap = typeof createImageBitmap === 'function' && typeof ImageData !== 'undefined';
+
 class WorkerPlayerInstace {
     public id: string | number;
     public totalFrames = 0;
     public frameRate = 0;
+    public markers: Marker[];
     public disposed = false;
     private player: RlottieWasm | null = null;
 
     constructor(options: WorkerPlayerOptions) {
         this.id = options.id;
-        this.player = new RLottie(options.data);
+        const data = options.colors ? applyColors(options.data, options.colors) : options.data;
+        this.player = new RLottie(data);
+
+        // Конструктор вызывает `load()`: если анимацию не удалось загрузить,
+        // количество кадров будет нулевым
+        if (!this.player.frames()) {
+            this.dispose();
+            throw new WorkerError('EINVALID_MOVIE', 'Unable to load movie');
+        }
+
         this.totalFrames = this.player.frames();
         this.frameRate = this.player.frameRate();
+        this.markers = parseMarkers(options.data);
     }
 
     /**
-     * Отрисовка указанного кадра
-     * @return Пиксельные данные о кадре или `undefined`, если отрисовать не удалось
-     * (например, плеер ещё не загружен или указали неправильный кадр)
+     * Отрисовка указанного кадра без копирования: вернёт буффер внутри WASM-кучи,
+     * который будет перезаписан при отрисовке следующего кадра, или `undefined`,
+     * если отрисовать не удалось (например, плеер ещё не загружен или указали
+     * неправильный кадр)
      */
-    render(frame: number, width: number, height: number): ArrayBuffer | void {
+    renderRaw(frame: number, width: number, height: number): Uint8Array | void {
         const { player, totalFrames } = this;
         if (player && frame >= 0 && frame < totalFrames) {
-            const data = player.render(frame, width, height);
-
-            // Из WASM кода возвращается указатель на буффер с кадром внутри WASM-кучи.
-            // Более того, сам буффер переиспользуется для отрисовки последующих
-            // кадров. Из-за этого мы
-            // а) не можем передать его как transferable, так как он должен остаться
-            //    внутри процесса
-            // б) просто передать как аргумент и дать браузеру его скопировать,
-            //    потому что копироваться будет вся WASM-куча
-            // Так что делаем копию буффера вручную
-            return copyBuffer(data);
+            return player.render(frame, width, height);
         }
     }
 
@@ -68,46 +84,194 @@ function dispose(id: ID) {
     }
 }
 
+/**
+ * Добавляет холст, в который воркер будет сам рисовать анимацию
+ */
+function attachCanvas(payload: AttachCanvasRequest) {
+    const { canvasId, id } = payload;
+    const canvas = new WorkerCanvas(canvasId, payload.canvas, payload.state,
+        (frame, width, height) => instances.get(id)?.renderRaw(frame, width, height));
+    canvases.set(canvasId, canvas);
+    scheduleCanvasLoop();
+}
+
+/**
+ * Планирует отрисовку холстов на следующий кадр
+ */
+function scheduleCanvasLoop() {
+    if (!canvasLoopId && canvases.size) {
+        canvasLoopId = typeof requestAnimationFrame === 'function'
+            ? requestAnimationFrame(canvasLoop)
+            : setTimeout(() => canvasLoop(performance.now()), 16) as unknown as number;
+    }
+}
+
+/**
+ * Цикл отрисовки холстов
+ */
+function canvasLoop(time: number) {
+    let active = false;
+    canvasLoopId = 0;
+    canvases.forEach(canvas => {
+        try {
+            if (canvas.tick(time)) {
+                active = true;
+            }
+        } catch (err) {
+            // Не получилось отрисовать холст: убираем его, чтобы не мешал
+            // остальным, и сообщаем об ошибке плееру
+            canvases.delete(canvas.canvasId);
+            const evt: CanvasEvent = {
+                type: 'canvas',
+                canvasId: canvas.canvasId,
+                name: 'error',
+                frame: canvas.frame,
+                error: toWorkerErrorPayload(err, 'ERENDER')
+            };
+            self.postMessage(evt);
+        }
+    });
+
+    if (active) {
+        scheduleCanvasLoop();
+    }
+}
+
 /**
  * Отрисовка кадров для указанных анимаций
  */
 function render(payload: FrameRequest[]) {
     const frames: FrameResponse[] = [];
+    const errors: FrameError[] = [];
     payload.forEach(req => {
         try {
             const instance = instances.get(req.id);
-            const data = instance?.render(req.frame, req.width, req.height)
-            if (data) {
-                frames.push({ ...req, data });
+            const start = performance.now();
+            const raw = instance?.renderRaw(req.frame, req.width, req.height);
+            if (raw) {
+                const rendered = performance.now();
+                // Из WASM кода возвращается указатель на буффер с кадром внутри WASM-кучи.
+                // Более того, сам буффер переиспользуется для отрисовки последующих
+                // кадров. Из-за этого мы
+                // а) не можем передать его как transferable, так как он должен остаться
+                //    внутри процесса
+                // б) просто передать как аргумент и дать браузеру его скопировать,
+                //    потому что копироваться будет вся WASM-куча
+                // Так что делаем копию буффера вручную
+                const data = copyBuffer(raw);
+                frames.push({
+                    ...req,
+                    data,
+                    renderTime: rendered - start,
+                    copyTime: performance.now() - rendered
+                });
             }
-        } catch {}
+        } catch (err) {
+            errors.push({
+                id: req.id,
+                frame: req.frame,
+                error: toWorkerErrorPayload(err, 'ERENDER')
+            });
+        }
     });
 
-    return frames;
+    return { frames, errors };
 }
 
 self.addEventListener('message', (evt: MessageEvent<WorkerMessage>) => {
     const { seq, name, payload } = evt.data
 
-    switch (name) {
-        case 'create':
-            const instance = create(payload);
-            respond(seq, name, {
-                totalFrames: instance.totalFrames,
-                frameRate: instance.frameRate
-            });
-            break;
-        case 'dispose':
-            dispose(payload.id);
-            respond(seq, name, { ok: true });
-            break;
-        case 'render':
-            const frames = render(payload.frames);
-            respond(seq, name, { frames }, frames.map(f => f.data));
-            break;
+    try {
+        switch (name) {
+            case 'create':
+                const instance = create(payload);
+                respond(seq, name, {
+                    totalFrames: instance.totalFrames,
+                    frameRate: instance.frameRate,
+                    markers: instance.markers
+                });
+                break;
+            case 'dispose':
+                dispose(payload.id);
+                respond(seq, name, { ok: true });
+                break;
+            case 'attachCanvas':
+                attachCanvas(payload);
+                respond(seq, name, { ok: true });
+                break;
+            case 'updateCanvas':
+                canvases.get(payload.canvasId)?.update(payload.state, payload.seek);
+                scheduleCanvasLoop();
+                respond(seq, name, { ok: true });
+                break;
+            case 'detachCanvas':
+                canvases.delete(payload.canvasId);
+                respond(seq, name, { ok: true });
+                break;
+            case 'render':
+                toBitmaps(render(payload.frames))
+                    .then(resp => respond(seq, name, resp, resp.frames.map(f => f.data)))
+                    .catch(err => respondError(seq, name, err));
+                break;
+        }
+    } catch (err) {
+        respondError(seq, name, err);
     }
 });
 
+/**
+ * Конвертирует пиксельные данные отрисованных кадров в `ImageBitmap`, если
+ * это поддерживается. Если сконвертировать кадр не удалось, он будет передан
+ * как есть
+ */
+function toBitmaps(resp: RenderResponse): Promise<RenderResponse> {
+    if (!supportsBitmap) {
+        return Promise.resolve(resp);
+    }
+
+    return Promise.all(resp.frames.map(frame => {
+        const { data, width, height } = frame;
+        if (data instanceof ArrayBuffer) {
+            const start = performance.now();
+            const image = new ImageData(new Uint8ClampedArray(data), width, height);
+            return createImageBitmap(image)
+                .then(bitmap => ({
+                    ...frame,
+                    data: bitmap,
+                    copyTime: (frame.copyTime || 0) + performance.now() - start
+                }))
+                .catch(() => frame);
+        }
+
+        return frame;
+    })).then(frames => ({ ...resp, frames }));
+}
+
+/**
+ * Достаёт именованные маркеры из JSON-файла анимации. Номера кадров маркеров
+ * приводятся к началу анимации (поле `ip`)
+ */
+function parseMarkers(data: string): Marker[] {
+    const result: Marker[] = [];
+    try {
+        const { ip = 0, markers } = JSON.parse(data);
+        if (Array.isArray(markers)) {
+            markers.forEach(m => {
+                if (m && typeof m.tm === 'number') {
+                    const start = Math.round(m.tm - ip);
+                    result.push({
+                        name: String(m.cm ?? ''),
+                        start,
+                        end: start + Math.max(0, Math.round(m.dr || 0))
+                    });
+                }
+            });
+        }
+    } catch {}
+
+    return result;
+}
+
 /**
  * Быстрое копирование буффера
  */
@@ -124,6 +288,19 @@ function respond<K extends keyof RequestMap>(seq: number, name: K, payload: Requ
     self.postMessage({ seq, name, payload }, transferable);
 }
 
+/**
+ * Ответ с ошибкой на PRC-сообщение
+ */
+function respondError(seq: number, name: keyof RequestMap, err: unknown) {
+    const msg: WorkerMessage = {
+        seq,
+        name,
+        payload: null,
+        error: toWorkerErrorPayload(err)
+    };
+    self.postMessage(msg);
+}
+
 lottieLoader.then(({ RlottieWasm }) => {
     RLottie = RlottieWasm;
     // Сообщаем, что загрузились
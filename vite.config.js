@@ -6,6 +6,24 @@ function getBuildConfig() {
         }
     }
 
+    if (process.env.BUILD === 'node') {
+        // Точка входа для Node.js собирается отдельно, поверх основной сборки
+        return {
+            emptyOutDir: false,
+            lib: {
+                entry: {
+                    node: './src/node.ts',
+                    'node-worker': './src/node-worker.ts'
+                },
+                formats: ['es'],
+                fileName: (format, name) => `${name}.js`
+            },
+            rollupOptions: {
+                external: [/^node:/]
+            }
+        };
+    }
+
     return {
         lib: {
             entry: './src/main.ts',